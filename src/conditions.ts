@@ -0,0 +1,179 @@
+import * as ts from 'typescript';
+import { Usage } from './usages';
+
+/**
+ * Why a usage of a component is only rendered some of the time, see `Options.onlyRewriteConditionallyRendered`:
+ * - `logicalAnd`: `{open && <X />}`
+ * - `ternary`: `{open ? <X /> : null}`
+ * - `openProp`: `<Modal isOpen={open}><X /></Modal>` or `<X isOpen={open} />`, see `Options.openProps`
+ * - `renderCallback`: `<Route render={() => <X />} />` or `<Toggle>{on => <X />}</Toggle>`
+ * - `stateBranch`: `if (open) { return <X />; }` or after `if (!open) { return null; }`, where `open` comes from
+ *   `useState()`
+ * - `unconditional`: none of the above, or used as something other than a JSX tag
+ */
+export type RenderCondition =
+  | 'logicalAnd'
+  | 'ternary'
+  | 'openProp'
+  | 'renderCallback'
+  | 'stateBranch'
+  | 'unconditional';
+
+export type UsageRenderCondition = {
+  /**
+   * The 1-based line of the usage in the importing file
+   */
+  line: number;
+  condition: RenderCondition;
+};
+
+/**
+ * Classifies each usage of a component as a value, leaving out closing tags since they're part of the same element
+ */
+export function getRenderConditions(usages: Usage[], openProps: string[]): UsageRenderCondition[] {
+  return usages
+    .filter(u => u.kind !== 'type' && !ts.isJsxClosingElement(u.node.parent))
+    .map(usage => {
+      const sourceFile = usage.node.getSourceFile();
+      return {
+        line: sourceFile.getLineAndCharacterOfPosition(usage.node.getStart(sourceFile)).line + 1,
+        condition: getRenderCondition(usage, openProps),
+      };
+    });
+}
+
+/**
+ * Walks up from the rendered element to the function that renders it, and returns the innermost condition on the way
+ */
+function getRenderCondition(usage: Usage, openProps: string[]): RenderCondition {
+  if (usage.kind !== 'jsxTag') {
+    return 'unconditional';
+  }
+  const tag = usage.node.parent as ts.JsxOpeningElement | ts.JsxSelfClosingElement;
+  if (hasOpenProp(tag, openProps)) {
+    return 'openProp';
+  }
+  let node: ts.Node = ts.isJsxOpeningElement(tag) ? tag.parent : tag;
+  for (let parent = node.parent; parent && !ts.isSourceFile(parent); node = parent, parent = parent.parent) {
+    if (
+      ts.isBinaryExpression(parent) &&
+      parent.operatorToken.kind === ts.SyntaxKind.AmpersandAmpersandToken &&
+      parent.right === node
+    ) {
+      return 'logicalAnd';
+    }
+    if (ts.isConditionalExpression(parent) && parent.condition !== node) {
+      return 'ternary';
+    }
+    if (ts.isJsxElement(parent) && hasOpenProp(parent.openingElement, openProps)) {
+      return 'openProp';
+    }
+    if (ts.isIfStatement(parent) && parent.expression !== node && isStateCondition(parent.expression)) {
+      return 'stateBranch';
+    }
+    if (ts.isBlock(parent) && hasStateGuardBefore(parent, node as ts.Statement)) {
+      return 'stateBranch';
+    }
+    if (ts.isFunctionLike(parent)) {
+      return isRenderCallback(parent) ? 'renderCallback' : 'unconditional';
+    }
+  }
+  return 'unconditional';
+}
+
+function hasOpenProp(tag: ts.JsxOpeningElement | ts.JsxSelfClosingElement, openProps: string[]) {
+  return tag.attributes.properties.some(p => ts.isJsxAttribute(p) && openProps.indexOf(p.name.text) !== -1);
+}
+
+/**
+ * A function passed as a prop or as the children of an element, which the element decides when to call
+ */
+function isRenderCallback(fn: ts.Node) {
+  let node = fn;
+  while (ts.isParenthesizedExpression(node.parent)) {
+    node = node.parent;
+  }
+  return ts.isJsxExpression(node.parent);
+}
+
+/**
+ * `if (!open) { return null; }` in front of the statement that renders the element. Returning something else, like
+ * another element, doesn't count since the page is still rendered one way or another.
+ */
+function hasStateGuardBefore(block: ts.Block, statement: ts.Statement) {
+  const previousStatements = block.statements.slice(0, block.statements.indexOf(statement));
+  return previousStatements.some(
+    s => ts.isIfStatement(s) && returnsNothing(s.thenStatement) && isStateCondition(s.expression),
+  );
+}
+
+function returnsNothing(statement: ts.Statement): boolean {
+  if (ts.isBlock(statement)) {
+    return statement.statements.length === 1 && returnsNothing(statement.statements[0]);
+  }
+  if (!ts.isReturnStatement(statement)) {
+    return false;
+  }
+  const expression = statement.expression;
+  return (
+    !expression ||
+    expression.kind === ts.SyntaxKind.NullKeyword ||
+    expression.kind === ts.SyntaxKind.FalseKeyword ||
+    (ts.isIdentifier(expression) && expression.text === 'undefined')
+  );
+}
+
+/**
+ * Returns true if the condition refers to a state variable, `x` in `const [x, setX] = useState()`, of the function
+ * that it's in. State variables are found by name.
+ */
+function isStateCondition(condition: ts.Expression) {
+  let fn: ts.Node = condition.parent;
+  while (fn && !ts.isFunctionLike(fn) && !ts.isSourceFile(fn)) {
+    fn = fn.parent;
+  }
+  const stateNames = getStateNames(fn);
+  let refersToState = false;
+  const visit = (node: ts.Node) => {
+    if (ts.isIdentifier(node) && stateNames.indexOf(node.text) !== -1) {
+      refersToState = true;
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(condition);
+  return refersToState;
+}
+
+function getStateNames(fn: ts.Node) {
+  const names: string[] = [];
+  const visit = (node: ts.Node) => {
+    if (
+      ts.isVariableDeclaration(node) &&
+      ts.isArrayBindingPattern(node.name) &&
+      node.initializer &&
+      isUseStateCall(node.initializer)
+    ) {
+      const state = node.name.elements[0];
+      if (state && ts.isBindingElement(state) && ts.isIdentifier(state.name)) {
+        names.push(state.name.text);
+      }
+    }
+    // State of nested functions isn't the state of this one
+    if (!ts.isFunctionLike(node)) {
+      ts.forEachChild(node, visit);
+    }
+  };
+  ts.forEachChild(fn, visit);
+  return names;
+}
+
+/**
+ * `useState()` or `React.useState()`
+ */
+function isUseStateCall(node: ts.Expression) {
+  if (!ts.isCallExpression(node)) {
+    return false;
+  }
+  const callee = ts.isPropertyAccessExpression(node.expression) ? node.expression.name : node.expression;
+  return ts.isIdentifier(callee) && callee.text === 'useState';
+}
@@ -0,0 +1,67 @@
+import * as ts from 'typescript';
+
+/**
+ * Rewrites that might not behave like the original import:
+ * - `renderedOutsideSuspense`: a lazy component is rendered without a Suspense boundary around it in the same file
+ * - `usedAsValue`: a lazy component is used as something other than a JSX tag, like `<Route component={X} />`
+ * - `importPartlyKept`: components were rewritten but the import declaration is kept for its other bindings, which
+ *   means that the module is still loaded synchronously
+ * - `unresolvedModule`: an import that imports something that looks like a component couldn't be resolved
+ * - `circularImport`: a component was rewritten even though its module imports the importing file, see
+ *   `Options.circularImports`
+ * - `belowMinimumWeight`: a component wasn't rewritten since its module weighs less than `Options.minimumModuleWeight`,
+ *   which is there to show the weight in the build output
+ */
+export type DiagnosticKind =
+  | 'renderedOutsideSuspense'
+  | 'usedAsValue'
+  | 'importPartlyKept'
+  | 'unresolvedModule'
+  | 'circularImport'
+  | 'belowMinimumWeight';
+
+export type DiagnosticCategories = { [kind in DiagnosticKind]?: ts.DiagnosticCategory };
+
+export const diagnosticCodes: { [kind in DiagnosticKind]: number } = {
+  renderedOutsideSuspense: 96001,
+  usedAsValue: 96002,
+  importPartlyKept: 96003,
+  unresolvedModule: 96004,
+  circularImport: 96005,
+  belowMinimumWeight: 96006,
+};
+
+const defaultCategories: { [kind in DiagnosticKind]: ts.DiagnosticCategory } = {
+  renderedOutsideSuspense: ts.DiagnosticCategory.Warning,
+  usedAsValue: ts.DiagnosticCategory.Warning,
+  importPartlyKept: ts.DiagnosticCategory.Message,
+  unresolvedModule: ts.DiagnosticCategory.Warning,
+  circularImport: ts.DiagnosticCategory.Warning,
+  belowMinimumWeight: ts.DiagnosticCategory.Message,
+};
+
+export type Diagnostics = { [fileName: string]: ts.Diagnostic[] };
+
+export function createDiagnostic(
+  kind: DiagnosticKind,
+  node: ts.Node,
+  messageText: string,
+  categories: DiagnosticCategories,
+): ts.Diagnostic {
+  const file = node.getSourceFile();
+  const start = node.getStart(file);
+  const category = categories[kind];
+  return {
+    file,
+    start,
+    length: node.getEnd() - start,
+    messageText,
+    category: category === undefined ? defaultCategories[kind] : category,
+    code: diagnosticCodes[kind],
+    source: 'ts-transform-import-to-lazy-async-import',
+  };
+}
+
+export function getAllDiagnostics(diagnostics: Diagnostics) {
+  return ([] as ts.Diagnostic[]).concat(...Object.keys(diagnostics).map(fileName => diagnostics[fileName]));
+}
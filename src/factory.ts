@@ -0,0 +1,393 @@
+import * as ts from 'typescript';
+
+/**
+ * The parts of `ts.NodeFactory` (`context.factory` in TypeScript 4.0 and later) that this transformer
+ * uses, with the signatures of TypeScript 5. On TypeScript 4.x the signatures that have changed since
+ * are adapted, and on TypeScript 3.x the deprecated global `ts.createX()` functions are used instead.
+ */
+export interface NodeFactory {
+  createIdentifier(text: string): ts.Identifier;
+  /**
+   * Pass `OPTIMISTIC_UNIQUE_NAME` as flags to only add a suffix to the name if it's already taken.
+   */
+  createUniqueName(text: string, flags?: number): ts.Identifier;
+  createStringLiteral(text: string): ts.StringLiteral;
+  createToken<TKind extends ts.SyntaxKind>(token: TKind): ts.Token<TKind>;
+  createNull(): ts.NullLiteral;
+  createTrue(): ts.BooleanLiteral;
+  createFalse(): ts.BooleanLiteral;
+  createNumericLiteral(value: string | number): ts.NumericLiteral;
+  createPropertyAccessExpression(expression: ts.Expression, name: string | ts.Identifier): ts.PropertyAccessExpression;
+  createCallExpression(
+    expression: ts.Expression,
+    typeArguments: ReadonlyArray<ts.TypeNode> | undefined,
+    argumentsArray: ReadonlyArray<ts.Expression> | undefined,
+  ): ts.CallExpression;
+  createArrowFunction(
+    modifiers: ReadonlyArray<ts.Modifier> | undefined,
+    typeParameters: ReadonlyArray<ts.TypeParameterDeclaration> | undefined,
+    parameters: ReadonlyArray<ts.ParameterDeclaration>,
+    type: ts.TypeNode | undefined,
+    equalsGreaterThanToken: ts.EqualsGreaterThanToken | undefined,
+    body: ts.ConciseBody,
+  ): ts.ArrowFunction;
+  createParameterDeclaration(
+    modifiers: ReadonlyArray<ts.Modifier> | undefined,
+    dotDotDotToken: ts.DotDotDotToken | undefined,
+    name: string | ts.BindingName,
+    questionToken?: ts.QuestionToken,
+    type?: ts.TypeNode,
+    initializer?: ts.Expression,
+  ): ts.ParameterDeclaration;
+  createFunctionExpression(
+    modifiers: ReadonlyArray<ts.Modifier> | undefined,
+    asteriskToken: ts.AsteriskToken | undefined,
+    name: string | ts.Identifier | undefined,
+    typeParameters: ReadonlyArray<ts.TypeParameterDeclaration> | undefined,
+    parameters: ReadonlyArray<ts.ParameterDeclaration> | undefined,
+    type: ts.TypeNode | undefined,
+    body: ts.Block,
+  ): ts.FunctionExpression;
+  createBlock(statements: ReadonlyArray<ts.Statement>, multiLine?: boolean): ts.Block;
+  createReturnStatement(expression?: ts.Expression): ts.ReturnStatement;
+  createIfStatement(
+    expression: ts.Expression,
+    thenStatement: ts.Statement,
+    elseStatement?: ts.Statement,
+  ): ts.IfStatement;
+  createExpressionStatement(expression: ts.Expression): ts.ExpressionStatement;
+  createBinaryExpression(left: ts.Expression, operator: ts.BinaryOperator, right: ts.Expression): ts.BinaryExpression;
+  createTypeOfExpression(expression: ts.Expression): ts.TypeOfExpression;
+  createLogicalNot(operand: ts.Expression): ts.PrefixUnaryExpression;
+  createElementAccessExpression(expression: ts.Expression, index: ts.Expression): ts.ElementAccessExpression;
+  createThis(): ts.ThisExpression;
+  createParenthesizedExpression(expression: ts.Expression): ts.ParenthesizedExpression;
+  createObjectLiteralExpression(
+    properties?: ReadonlyArray<ts.ObjectLiteralElementLike>,
+    multiLine?: boolean,
+  ): ts.ObjectLiteralExpression;
+  createPropertyAssignment(name: string | ts.PropertyName, initializer: ts.Expression): ts.PropertyAssignment;
+  createVariableStatement(
+    modifiers: ReadonlyArray<ts.Modifier> | undefined,
+    declarationList: ts.VariableDeclarationList | ReadonlyArray<ts.VariableDeclaration>,
+  ): ts.VariableStatement;
+  createVariableDeclarationList(
+    declarations: ReadonlyArray<ts.VariableDeclaration>,
+    flags?: ts.NodeFlags,
+  ): ts.VariableDeclarationList;
+  createVariableDeclaration(
+    name: string | ts.BindingName,
+    exclamationToken: ts.ExclamationToken | undefined,
+    type: ts.TypeNode | undefined,
+    initializer: ts.Expression | undefined,
+  ): ts.VariableDeclaration;
+  createImportDeclaration(
+    modifiers: ReadonlyArray<ts.Modifier> | undefined,
+    importClause: ts.ImportClause | undefined,
+    moduleSpecifier: ts.Expression,
+  ): ts.ImportDeclaration;
+  createImportClause(
+    isTypeOnly: boolean,
+    name: ts.Identifier | undefined,
+    namedBindings: ts.NamedImportBindings | undefined,
+  ): ts.ImportClause;
+  createNamedImports(elements: ReadonlyArray<ts.ImportSpecifier>): ts.NamedImports;
+  createNamespaceImport(name: ts.Identifier): ts.NamespaceImport;
+  createImportSpecifier(
+    isTypeOnly: boolean,
+    propertyName: ts.Identifier | undefined,
+    name: ts.Identifier,
+  ): ts.ImportSpecifier;
+  createJsxElement(
+    openingElement: ts.JsxOpeningElement,
+    children: ReadonlyArray<ts.JsxChild>,
+    closingElement: ts.JsxClosingElement,
+  ): ts.JsxElement;
+  createJsxOpeningElement(
+    tagName: ts.JsxTagNameExpression,
+    typeArguments: ReadonlyArray<ts.TypeNode> | undefined,
+    attributes: ts.JsxAttributes,
+  ): ts.JsxOpeningElement;
+  createJsxClosingElement(tagName: ts.JsxTagNameExpression): ts.JsxClosingElement;
+  createJsxAttributes(properties: ReadonlyArray<ts.JsxAttributeLike>): ts.JsxAttributes;
+  createJsxAttribute(
+    name: ts.Identifier,
+    initializer: ts.StringLiteral | ts.JsxExpression | undefined,
+  ): ts.JsxAttribute;
+  createJsxExpression(
+    dotDotDotToken: ts.DotDotDotToken | undefined,
+    expression: ts.Expression | undefined,
+  ): ts.JsxExpression;
+}
+
+/**
+ * The `ts.createX()` signatures that option hooks written for earlier versions of this transformer use.
+ * @deprecated Use the `NodeFactory` signatures instead, the global `ts.createX()` functions are removed in TypeScript 5.
+ */
+export interface LegacyNodeFactory {
+  createImportDeclaration(
+    decorators: ReadonlyArray<ts.Decorator> | undefined,
+    modifiers: ReadonlyArray<ts.Modifier> | undefined,
+    importClause: ts.ImportClause | undefined,
+    moduleSpecifier: ts.Expression,
+  ): ts.ImportDeclaration;
+  createImportClause(
+    name: ts.Identifier | undefined,
+    namedBindings: ts.NamedImportBindings | undefined,
+    isTypeOnly?: boolean,
+  ): ts.ImportClause;
+  createImportSpecifier(propertyName: ts.Identifier | undefined, name: ts.Identifier): ts.ImportSpecifier;
+  createParameter(
+    decorators: ReadonlyArray<ts.Decorator> | undefined,
+    modifiers: ReadonlyArray<ts.Modifier> | undefined,
+    dotDotDotToken: ts.DotDotDotToken | undefined,
+    name: string | ts.BindingName,
+    questionToken?: ts.QuestionToken,
+    type?: ts.TypeNode,
+    initializer?: ts.Expression,
+  ): ts.ParameterDeclaration;
+  createVariableDeclaration(
+    name: string | ts.BindingName,
+    type?: ts.TypeNode,
+    initializer?: ts.Expression,
+  ): ts.VariableDeclaration;
+  createPropertyAccess(expression: ts.Expression, name: string | ts.Identifier): ts.PropertyAccessExpression;
+  createCall(
+    expression: ts.Expression,
+    typeArguments: ReadonlyArray<ts.TypeNode> | undefined,
+    argumentsArray: ReadonlyArray<ts.Expression> | undefined,
+  ): ts.CallExpression;
+  createParen(expression: ts.Expression): ts.ParenthesizedExpression;
+  createObjectLiteral(
+    properties?: ReadonlyArray<ts.ObjectLiteralElementLike>,
+    multiLine?: boolean,
+  ): ts.ObjectLiteralExpression;
+  createLiteral(value: string | number | boolean): ts.PrimaryExpression;
+  createReturn(expression?: ts.Expression): ts.ReturnStatement;
+  createIf(expression: ts.Expression, thenStatement: ts.Statement, elseStatement?: ts.Statement): ts.IfStatement;
+  createStatement(expression: ts.Expression): ts.ExpressionStatement;
+  createBinary(left: ts.Expression, operator: ts.BinaryOperator, right: ts.Expression): ts.BinaryExpression;
+  createTypeOf(expression: ts.Expression): ts.TypeOfExpression;
+  createElementAccess(expression: ts.Expression, index: ts.Expression): ts.ElementAccessExpression;
+}
+
+/**
+ * The factory passed to option hooks such as `createComponentWrapperExpression()`. The `LegacyNodeFactory`
+ * members are only there so that hooks written for the `ts` namespace keep working.
+ */
+export type HookNodeFactory = NodeFactory & LegacyNodeFactory;
+
+export const OPTIMISTIC_UNIQUE_NAME = 16;
+
+const [majorVersion, minorVersion] = ts.versionMajorMinor.split('.').map(Number);
+const isAtLeast = (major: number, minor: number) =>
+  majorVersion > major || (majorVersion === major && minorVersion >= minor);
+
+export function getNodeFactory(context: ts.TransformationContext | undefined): NodeFactory {
+  const factory = (context && (context as any).factory) || (ts as any).factory;
+  if (!factory) {
+    return createTypeScript3NodeFactory();
+  }
+  if (isAtLeast(4, 8)) {
+    return factory;
+  }
+
+  // Before TypeScript 4.8 decorators were passed as the first argument
+  const adapted: NodeFactory = Object.create(factory);
+  adapted.createImportDeclaration = (modifiers, importClause, moduleSpecifier) =>
+    factory.createImportDeclaration(undefined, modifiers, importClause, moduleSpecifier);
+  adapted.createParameterDeclaration = (modifiers, dotDotDotToken, name, questionToken, type, initializer) =>
+    factory.createParameterDeclaration(undefined, modifiers, dotDotDotToken, name, questionToken, type, initializer);
+  if (!isAtLeast(4, 5)) {
+    // Type only import specifiers were added in TypeScript 4.5
+    adapted.createImportSpecifier = (isTypeOnly, propertyName, name) =>
+      factory.createImportSpecifier(propertyName, name);
+  }
+  return adapted;
+}
+
+function createTypeScript3NodeFactory(): NodeFactory {
+  // The global functions aren't in the typings of TypeScript 5
+  const legacy = ts as any;
+  const factory: NodeFactory = {
+    createIdentifier: text => legacy.createIdentifier(text),
+    createUniqueName: (text, flags = 0) =>
+      flags & OPTIMISTIC_UNIQUE_NAME ? legacy.createOptimisticUniqueName(text) : legacy.createUniqueName(text),
+    createStringLiteral: text => legacy.createStringLiteral(text),
+    createToken: token => legacy.createToken(token),
+    createNull: () => legacy.createNull(),
+    createTrue: () => legacy.createTrue(),
+    createFalse: () => legacy.createFalse(),
+    createNumericLiteral: value => legacy.createNumericLiteral(String(value)),
+    createPropertyAccessExpression: (expression, name) => legacy.createPropertyAccess(expression, name),
+    createCallExpression: (expression, typeArguments, argumentsArray) =>
+      legacy.createCall(expression, typeArguments, argumentsArray),
+    createArrowFunction: (modifiers, typeParameters, parameters, type, equalsGreaterThanToken, body) =>
+      legacy.createArrowFunction(modifiers, typeParameters, parameters, type, equalsGreaterThanToken, body),
+    createParameterDeclaration: (modifiers, dotDotDotToken, name, questionToken, type, initializer) =>
+      legacy.createParameter(undefined, modifiers, dotDotDotToken, name, questionToken, type, initializer),
+    createFunctionExpression: (modifiers, asteriskToken, name, typeParameters, parameters, type, body) =>
+      legacy.createFunctionExpression(modifiers, asteriskToken, name, typeParameters, parameters, type, body),
+    createBlock: (statements, multiLine) => legacy.createBlock(statements, multiLine),
+    createReturnStatement: expression => legacy.createReturn(expression),
+    createIfStatement: (expression, thenStatement, elseStatement) =>
+      legacy.createIf(expression, thenStatement, elseStatement),
+    createExpressionStatement: expression => legacy.createExpressionStatement(expression),
+    createBinaryExpression: (left, operator, right) => legacy.createBinary(left, operator, right),
+    createTypeOfExpression: expression => legacy.createTypeOf(expression),
+    createLogicalNot: operand => legacy.createLogicalNot(operand),
+    createElementAccessExpression: (expression, index) => legacy.createElementAccess(expression, index),
+    createThis: () => legacy.createThis(),
+    createParenthesizedExpression: expression => legacy.createParen(expression),
+    createObjectLiteralExpression: (properties, multiLine) => legacy.createObjectLiteral(properties, multiLine),
+    createPropertyAssignment: (name, initializer) => legacy.createPropertyAssignment(name, initializer),
+    createVariableStatement: (modifiers, declarationList) => legacy.createVariableStatement(modifiers, declarationList),
+    createVariableDeclarationList: (declarations, flags) => legacy.createVariableDeclarationList(declarations, flags),
+    createVariableDeclaration: (name, exclamationToken, type, initializer) =>
+      legacy.createVariableDeclaration(name, type, initializer),
+    createImportDeclaration: (modifiers, importClause, moduleSpecifier) =>
+      legacy.createImportDeclaration(undefined, modifiers, importClause, moduleSpecifier),
+    createImportClause: (isTypeOnly, name, namedBindings) => legacy.createImportClause(name, namedBindings),
+    createNamedImports: elements => legacy.createNamedImports(elements),
+    createNamespaceImport: name => legacy.createNamespaceImport(name),
+    createImportSpecifier: (isTypeOnly, propertyName, name) => legacy.createImportSpecifier(propertyName, name),
+    createJsxElement: (openingElement, children, closingElement) =>
+      legacy.createJsxElement(openingElement, children, closingElement),
+    createJsxOpeningElement: (tagName, typeArguments, attributes) =>
+      legacy.createJsxOpeningElement(tagName, typeArguments, attributes),
+    createJsxClosingElement: tagName => legacy.createJsxClosingElement(tagName),
+    createJsxAttributes: properties => legacy.createJsxAttributes(properties),
+    createJsxAttribute: (name, initializer) => legacy.createJsxAttribute(name, initializer),
+    createJsxExpression: (dotDotDotToken, expression) => legacy.createJsxExpression(dotDotDotToken, expression),
+  };
+  return Object.assign(Object.create(ts), factory);
+}
+
+/**
+ * Creates an `import(moduleSpecifier)` call.
+ */
+export function createImportCall(factory: NodeFactory, moduleSpecifier: ts.Expression) {
+  const importKeyword = factory.createToken(ts.SyntaxKind.ImportKeyword) as ts.Expression;
+  return factory.createCallExpression(importKeyword, undefined, [moduleSpecifier]);
+}
+
+const warnedLegacyMembers: string[] = [];
+
+/**
+ * Wraps a factory so that hooks written for the `ts` namespace (`createComponentWrapperExpression: ts => ...`)
+ * keep working, with a deprecation warning the first time each legacy function is used. Calling a `createX()` or
+ * `updateX()` function that neither the factory nor the legacy signatures have throws an error that says so, rather
+ * than a `TypeError` about `undefined`.
+ */
+export function createHookNodeFactory(factory: NodeFactory): HookNodeFactory {
+  const warn = (name: string, replacement: string) => {
+    if (warnedLegacyMembers.indexOf(name) === -1) {
+      warnedLegacyMembers.push(name);
+      console.warn(
+        `ts-transform-import-to-lazy-async-import: Options hooks are now passed a NodeFactory instead of the ts namespace. ` +
+          `Calling \`${name}\` is deprecated, use \`${replacement}\` instead.`,
+      );
+    }
+  };
+
+  // Any other member is looked up on the factory, which on TypeScript 3 falls back to the ts namespace
+  const hookFactory: HookNodeFactory = Object.create(factory);
+  hookFactory.createImportDeclaration = (...args: any[]) => {
+    if (args.length === 4) {
+      warn('createImportDeclaration(decorators, ...)', 'createImportDeclaration(modifiers, ...)');
+      return factory.createImportDeclaration(args[1], args[2], args[3]);
+    }
+    return factory.createImportDeclaration(args[0], args[1], args[2]);
+  };
+  hookFactory.createImportClause = (...args: any[]) => {
+    if (typeof args[0] !== 'boolean') {
+      warn('createImportClause(name, ...)', 'createImportClause(isTypeOnly, name, ...)');
+      return factory.createImportClause(!!args[2], args[0], args[1]);
+    }
+    return factory.createImportClause(args[0], args[1], args[2]);
+  };
+  hookFactory.createImportSpecifier = (...args: any[]) => {
+    if (typeof args[0] !== 'boolean') {
+      warn('createImportSpecifier(propertyName, name)', 'createImportSpecifier(isTypeOnly, propertyName, name)');
+      return factory.createImportSpecifier(false, args[0], args[1]);
+    }
+    return factory.createImportSpecifier(args[0], args[1], args[2]);
+  };
+  hookFactory.createVariableDeclaration = (...args: any[]) => {
+    const hasExclamationToken = args[1] && args[1].kind === ts.SyntaxKind.ExclamationToken;
+    if (args.length < 4 && !hasExclamationToken) {
+      warn(
+        'createVariableDeclaration(name, type, initializer)',
+        'createVariableDeclaration(name, undefined, type, ...)',
+      );
+      return factory.createVariableDeclaration(args[0], undefined, args[1], args[2]);
+    }
+    return factory.createVariableDeclaration(args[0], args[1], args[2], args[3]);
+  };
+  hookFactory.createParameter = (decorators, modifiers, dotDotDotToken, name, questionToken, type, initializer) => {
+    warn('createParameter()', 'createParameterDeclaration()');
+    return factory.createParameterDeclaration(modifiers, dotDotDotToken, name, questionToken, type, initializer);
+  };
+  hookFactory.createPropertyAccess = (expression, name) => {
+    warn('createPropertyAccess()', 'createPropertyAccessExpression()');
+    return factory.createPropertyAccessExpression(expression, name);
+  };
+  hookFactory.createCall = (expression, typeArguments, argumentsArray) => {
+    warn('createCall()', 'createCallExpression()');
+    return factory.createCallExpression(expression, typeArguments, argumentsArray);
+  };
+  hookFactory.createParen = expression => {
+    warn('createParen()', 'createParenthesizedExpression()');
+    return factory.createParenthesizedExpression(expression);
+  };
+  hookFactory.createObjectLiteral = (properties, multiLine) => {
+    warn('createObjectLiteral()', 'createObjectLiteralExpression()');
+    return factory.createObjectLiteralExpression(properties, multiLine);
+  };
+  hookFactory.createLiteral = value => {
+    warn('createLiteral()', 'createStringLiteral(), createNumericLiteral(), createTrue() or createFalse()');
+    if (typeof value === 'boolean') {
+      return value ? factory.createTrue() : factory.createFalse();
+    }
+    return typeof value === 'number' ? factory.createNumericLiteral(value) : factory.createStringLiteral(value);
+  };
+  hookFactory.createReturn = expression => {
+    warn('createReturn()', 'createReturnStatement()');
+    return factory.createReturnStatement(expression);
+  };
+  hookFactory.createIf = (expression, thenStatement, elseStatement) => {
+    warn('createIf()', 'createIfStatement()');
+    return factory.createIfStatement(expression, thenStatement, elseStatement);
+  };
+  hookFactory.createStatement = expression => {
+    warn('createStatement()', 'createExpressionStatement()');
+    return factory.createExpressionStatement(expression);
+  };
+  hookFactory.createBinary = (left, operator, right) => {
+    warn('createBinary()', 'createBinaryExpression()');
+    return factory.createBinaryExpression(left, operator, right);
+  };
+  hookFactory.createTypeOf = expression => {
+    warn('createTypeOf()', 'createTypeOfExpression()');
+    return factory.createTypeOfExpression(expression);
+  };
+  hookFactory.createElementAccess = (expression, index) => {
+    warn('createElementAccess()', 'createElementAccessExpression()');
+    return factory.createElementAccessExpression(expression, index);
+  };
+
+  return new Proxy(hookFactory, {
+    get: (target, name) => {
+      const member = (target as any)[name];
+      if (member === undefined && typeof name === 'string' && /^(create|update)[A-Z]/.test(name)) {
+        return () => {
+          throw new Error(
+            `ts-transform-import-to-lazy-async-import: \`${name}()\` doesn't exist in TypeScript ${ts.version}. ` +
+              'Options hooks are passed a NodeFactory, see the NodeFactory of your TypeScript version for what to use instead.',
+          );
+        };
+      }
+      return member;
+    },
+  });
+}
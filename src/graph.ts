@@ -0,0 +1,275 @@
+import * as ts from 'typescript';
+import { FrameworkProfile, isComponentType, mightRenderComponents } from './profiles';
+import { getUsages, isUsedByJsx } from './usages';
+
+export type WeightUnit = 'bytes' | 'statements';
+
+/**
+ * The static imports between the files of a program, which is what ends up in the same bundle as
+ * the importing file. `import()` calls aren't followed since they're already split out.
+ */
+export type ModuleGraph = {
+  program: ts.Program;
+  profile: FrameworkProfile;
+  unit: WeightUnit;
+  includeNodeModules: boolean;
+  /**
+   * Files imported by each file, keyed by file name
+   */
+  imports: { [fileName: string]: ModuleImport[] };
+  /**
+   * Everything reachable from each file, keyed by file name
+   */
+  reachable: { [fileName: string]: ReachableFiles };
+  weights: { [fileName: string]: number };
+};
+
+export type ModuleImport = {
+  file: ts.SourceFile;
+  declaration: ts.ImportDeclaration | ts.ExportDeclaration;
+  /**
+   * If the transformer might rewrite the import declaration to lazy imports, which means that the importing file
+   * might render components and that everything the declaration imports as a value is a component
+   */
+  mightBeRewritten: boolean;
+};
+
+/**
+ * The files reachable from a set of roots, mapped to the file that imports them (or `null` for the roots)
+ */
+export type ReachableFiles = { [fileName: string]: string | null };
+
+export function createModuleGraph(
+  program: ts.Program,
+  profile: FrameworkProfile,
+  unit: WeightUnit,
+  includeNodeModules: boolean,
+): ModuleGraph {
+  return { program, profile, unit, includeNodeModules, imports: {}, reachable: {}, weights: {} };
+}
+
+/**
+ * Returns all files that are loaded synchronously when the passed files are loaded, including themselves. Pass
+ * `followImport` to leave out imports that are expected to be rewritten.
+ */
+export function getReachableFiles(
+  graph: ModuleGraph,
+  roots: ts.SourceFile[],
+  followImport: (importer: ts.SourceFile, moduleImport: ModuleImport) => boolean = () => true,
+) {
+  const reachable: ReachableFiles = {};
+  const queue = roots.filter(f => isIncluded(graph, f)).map(file => ({ file, importer: null as string | null }));
+  while (queue.length) {
+    const { file, importer } = queue.shift()!;
+    if (reachable.hasOwnProperty(file.fileName)) {
+      continue;
+    }
+    reachable[file.fileName] = importer;
+    for (const moduleImport of getModuleImports(graph, file).filter(i => followImport(file, i))) {
+      queue.push({ file: moduleImport.file, importer: file.fileName });
+    }
+  }
+  return reachable;
+}
+
+/**
+ * The weight of the files that a module pulls in which aren't already in `syncFiles`, which is what
+ * lazy loading the module moves out of the bundle of the importing file.
+ */
+export function getUniqueWeight(graph: ModuleGraph, moduleFile: ts.SourceFile, syncFiles: ReachableFiles) {
+  const reachable = getReachableFilesFrom(graph, moduleFile);
+  return Object.keys(reachable)
+    .filter(fileName => !syncFiles.hasOwnProperty(fileName))
+    .reduce((weight, fileName) => weight + getWeight(graph, graph.program.getSourceFile(fileName)!), 0);
+}
+
+/**
+ * Returns the chain of static imports that leads from one file to another as file names, like
+ * `['a.tsx', 'b.ts', 'c.tsx']`, if there is one.
+ */
+export function getImportPath(graph: ModuleGraph, from: ts.SourceFile, to: ts.SourceFile) {
+  const reachable = getReachableFilesFrom(graph, from);
+  if (!reachable.hasOwnProperty(to.fileName)) {
+    return undefined;
+  }
+  const importPath = [to.fileName];
+  for (let importer = reachable[to.fileName]; importer !== null; importer = reachable[importer]) {
+    importPath.unshift(importer);
+  }
+  return importPath;
+}
+
+function getReachableFilesFrom(graph: ModuleGraph, sourceFile: ts.SourceFile) {
+  if (!graph.reachable[sourceFile.fileName]) {
+    graph.reachable[sourceFile.fileName] = getReachableFiles(graph, [sourceFile]);
+  }
+  return graph.reachable[sourceFile.fileName];
+}
+
+function getModuleImports(graph: ModuleGraph, sourceFile: ts.SourceFile): ModuleImport[] {
+  if (!graph.imports[sourceFile.fileName]) {
+    const moduleImports: ModuleImport[] = [];
+    const valueBindings = getValueBindings(graph.program, sourceFile);
+    const mightRewrite = mightRenderComponents(sourceFile, graph.profile);
+    for (const declaration of getModuleDeclarations(graph.program, sourceFile, valueBindings)) {
+      const file = getSourceFileOfModule(declaration.moduleSpecifier!, graph.program);
+      if (file && isIncluded(graph, file)) {
+        moduleImports.push({
+          file,
+          declaration,
+          mightBeRewritten:
+            mightRewrite &&
+            ts.isImportDeclaration(declaration) &&
+            isComponentsOnlyImport(
+              graph,
+              declaration,
+              getImportBindings(declaration).filter(b => valueBindings.indexOf(b) !== -1),
+            ),
+        });
+      }
+    }
+    graph.imports[sourceFile.fileName] = moduleImports;
+  }
+  return graph.imports[sourceFile.fileName];
+}
+
+export function getSourceFileOfModule(moduleSpecifier: ts.Expression, program: ts.Program) {
+  const moduleSymbol = program.getTypeChecker().getSymbolAtLocation(moduleSpecifier);
+  if (moduleSymbol && moduleSymbol.valueDeclaration && ts.isSourceFile(moduleSymbol.valueDeclaration)) {
+    return moduleSymbol.valueDeclaration;
+  }
+  return undefined;
+}
+
+/**
+ * An import declaration where everything that's used as a value, `bindings`, is a component with a leading uppercase
+ * char, like `import { Dialog } from './dialog'`. Imports like that are the ones this transformer rewrites, while
+ * everything else, like `import { Store } from './store'` or `import { API_URL } from './config'`, is always loaded
+ * synchronously. Namespace imports are only rewritten if all their usages are, so they're always followed.
+ */
+function isComponentsOnlyImport(graph: ModuleGraph, importDecl: ts.ImportDeclaration, bindings: ts.Identifier[]) {
+  const namedBindings = importDecl.importClause && importDecl.importClause.namedBindings;
+  const moduleName = (importDecl.moduleSpecifier as ts.StringLiteral).text;
+  if ((namedBindings && !ts.isNamedImports(namedBindings)) || moduleName === graph.profile.moduleName) {
+    return false;
+  }
+  const typeChecker = graph.program.getTypeChecker();
+  return (
+    bindings.length > 0 &&
+    bindings.every(b => {
+      const symbol = typeChecker.getSymbolAtLocation(b);
+      return (
+        b.text[0] === b.text[0].toUpperCase() &&
+        !!symbol &&
+        isComponentType(typeChecker.getAliasedSymbol(symbol), typeChecker, graph.profile)
+      );
+    })
+  );
+}
+
+/**
+ * `import` and `export ... from` declarations that stay in the output. TypeScript removes imports whose bindings are
+ * only used as types, and re-exports of types, so those don't pull anything into the bundle.
+ */
+function getModuleDeclarations(program: ts.Program, sourceFile: ts.SourceFile, valueBindings: ts.Identifier[]) {
+  return sourceFile.statements.filter(statement => {
+    if (ts.isImportDeclaration(statement)) {
+      const bindings = getImportBindings(statement);
+      return bindings.length === 0 || bindings.some(b => valueBindings.indexOf(b) !== -1);
+    }
+    if (ts.isExportDeclaration(statement) && statement.moduleSpecifier && !isTypeOnly(statement)) {
+      const exportClause = statement.exportClause;
+      return (
+        !exportClause ||
+        !ts.isNamedExports(exportClause) ||
+        exportClause.elements.some(e => !isTypeOnly(e) && isValue(program.getTypeChecker(), e.name))
+      );
+    }
+    return false;
+  }) as (ts.ImportDeclaration | ts.ExportDeclaration)[];
+}
+
+/**
+ * The bindings of an import declaration, leaving out `import type` and `type` specifiers
+ */
+function getImportBindings(importDecl: ts.ImportDeclaration) {
+  const importClause = importDecl.importClause;
+  if (!importClause || isTypeOnly(importClause)) {
+    return [];
+  }
+  const namedBindings = importClause.namedBindings;
+  const bindings = importClause.name ? [importClause.name] : [];
+  if (namedBindings && ts.isNamespaceImport(namedBindings)) {
+    bindings.push(namedBindings.name);
+  } else if (namedBindings) {
+    bindings.push(...namedBindings.elements.filter(e => !isTypeOnly(e)).map(e => e.name));
+  }
+  return bindings;
+}
+
+/**
+ * The import bindings of a file that refer to a value and are referenced as one, either directly or through JSX
+ */
+function getValueBindings(program: ts.Program, sourceFile: ts.SourceFile) {
+  const typeChecker = program.getTypeChecker();
+  const bindings = sourceFile.statements
+    .filter(ts.isImportDeclaration)
+    .map(getImportBindings)
+    .reduce((all, b) => all.concat(b), [] as ts.Identifier[])
+    .filter(b => isValue(typeChecker, b));
+  const usages = getUsages(sourceFile, bindings, typeChecker);
+  return bindings.filter(
+    b => usages[b.text].some(u => u.kind !== 'type') || isUsedByJsx(b, sourceFile, program.getCompilerOptions()),
+  );
+}
+
+/**
+ * Returns true if an import or export binding refers to something that exists at runtime, as opposed to an interface
+ * or a type alias
+ */
+function isValue(typeChecker: ts.TypeChecker, name: ts.Identifier) {
+  const symbol = typeChecker.getSymbolAtLocation(name);
+  if (!symbol) {
+    return true;
+  }
+  const target = symbol.flags & ts.SymbolFlags.Alias ? typeChecker.getAliasedSymbol(symbol) : symbol;
+  return (target.flags & ts.SymbolFlags.Value) !== 0;
+}
+
+/**
+ * `import type`, `export type` and `type` specifiers, which TypeScript 3.8 added and always removes from the output
+ */
+export function isTypeOnly(node: ts.ImportClause | ts.ImportSpecifier | ts.ExportDeclaration | ts.ExportSpecifier) {
+  return 'isTypeOnly' in node && !!(node as { isTypeOnly?: boolean }).isTypeOnly;
+}
+
+/**
+ * Declaration files don't end up in a bundle, and packages only count if `includeNodeModules` is set.
+ * For packages the `.d.ts` is all we have, so they're weighed by their declarations.
+ */
+function isIncluded(graph: ModuleGraph, sourceFile: ts.SourceFile) {
+  if (graph.program.isSourceFileFromExternalLibrary(sourceFile)) {
+    return graph.includeNodeModules;
+  }
+  return !sourceFile.isDeclarationFile;
+}
+
+function getWeight(graph: ModuleGraph, sourceFile: ts.SourceFile) {
+  if (graph.weights[sourceFile.fileName] === undefined) {
+    graph.weights[sourceFile.fileName] =
+      graph.unit === 'bytes' ? Buffer.byteLength(sourceFile.text) : countStatements(sourceFile);
+  }
+  return graph.weights[sourceFile.fileName];
+}
+
+function countStatements(node: ts.Node): number {
+  let count = 0;
+  ts.forEachChild(node, child => {
+    const isStatement =
+      (child.kind >= ts.SyntaxKind.VariableStatement && child.kind <= ts.SyntaxKind.DebuggerStatement) ||
+      ts.isFunctionDeclaration(child) ||
+      ts.isClassDeclaration(child);
+    count += (isStatement ? 1 : 0) + countStatements(child);
+  });
+  return count;
+}
@@ -1,6 +1,92 @@
+import * as path from 'path';
 import * as ts from 'typescript';
+import { getRenderConditions, RenderCondition, UsageRenderCondition } from './conditions';
+import {
+  createDiagnostic,
+  DiagnosticCategories,
+  diagnosticCodes,
+  DiagnosticKind,
+  Diagnostics,
+  getAllDiagnostics,
+} from './diagnostics';
+import {
+  createHookNodeFactory,
+  createImportCall,
+  getNodeFactory,
+  HookNodeFactory,
+  NodeFactory,
+  OPTIMISTIC_UNIQUE_NAME,
+} from './factory';
+import {
+  createModuleGraph,
+  getImportPath,
+  getReachableFiles,
+  getSourceFileOfModule,
+  getUniqueWeight,
+  isTypeOnly,
+  ModuleGraph,
+  ReachableFiles,
+  WeightUnit,
+} from './graph';
+import { createLoadableLoader, createSyncLoadableLoader, LoadableMode } from './loadable';
+import {
+  getProjectRootDir,
+  getStaleManifestEntries,
+  isInManifest,
+  LazyComponentsManifest,
+  loadManifest,
+  NormalizedManifest,
+} from './manifest';
+import { getImportPragma, ImportPragma } from './pragma';
+import {
+  FrameworkName,
+  FrameworkProfile,
+  frameworkProfiles,
+  getFrameworkProfile,
+  isComponentType,
+  mightRenderComponents,
+} from './profiles';
+import { addFileReport, createImportReport, ImportReport, Report, SkipReason } from './report';
+import { isRouteUsage, RouteNames } from './routes';
+import { RetryOptions } from './runtime';
+import { getSuspenseTargets, isRenderedInsideSuspense, SuspenseBoundaries, wrapInSuspense } from './suspense';
+import { getNamespaceMemberUsages, getUsages, isUsedByJsx, Usage, Usages, UsageKind } from './usages';
+import {
+  addWebpackMagicComments,
+  getDefaultChunkName,
+  getModuleBaseName,
+  WebpackMagicComments,
+  WebpackMode,
+} from './webpack';
+
+export {
+  DiagnosticCategories,
+  diagnosticCodes,
+  DiagnosticKind,
+  FrameworkName,
+  FrameworkProfile,
+  frameworkProfiles,
+  HookNodeFactory,
+  ImportReport,
+  LazyComponentsManifest,
+  LoadableMode,
+  NodeFactory,
+  RenderCondition,
+  Report,
+  RetryOptions,
+  SkipReason,
+  SuspenseBoundaries,
+  UsageKind,
+  WebpackMode,
+};
 
 export const defaultOptions = {
+  /**
+   * The UI framework that the components are written for, which decides how components are recognized, what wraps
+   * them and how named exports are loaded. One of the built-in `frameworkProfiles` (`react`, `preact` for
+   * `preact/compat`, `solid` and `vue` for `defineAsyncComponent()`) or a profile of your own.
+   */
+  framework: 'react' as FrameworkName | FrameworkProfile,
   /**
    * React.lazy() only offically supports default exports, but it works if you do:
    * `React.lazy(() => import('./x').then(m => ({ default: m.Xyz })))`
@@ -8,6 +94,36 @@ export const defaultOptions = {
    * named exports this transform will be updated to that.
    */
   onlyRewriteDefaultExports: false,
+  /**
+   * Only rewrites components that are mounted as routes, which are usually the best split points: passed as
+   * `component={X}`, `element={<X />}` or `render={() => <X />}` to a `<Route>`, or used like that in a route
+   * config array such as `const routes = [{ path: '/x', element: <X /> }]`.
+   */
+  onlyRewriteRoutes: false,
+  /**
+   * The names of the elements that `onlyRewriteRoutes` treats as routes, matched against the last part of the tag
+   * name so that `<Router.Route>` counts as `Route`.
+   */
+  routeElementNames: ['Route'],
+  /**
+   * The props of route elements and the properties of route objects that mount a component.
+   */
+  routeProps: ['component', 'Component', 'element', 'render'],
+  /**
+   * The names of the variables and properties that route config arrays are assigned to.
+   */
+  routeConfigNames: ['routes'],
+  /**
+   * A static heuristic for staying away from content that is visible when the page loads: only rewrites components
+   * where every usage is behind a condition, like `{open && <X />}`, a ternary, a `useState()` driven `if`, a render
+   * callback or an element with one of `openProps`. How each usage was classified is listed in the report.
+   */
+  onlyRewriteConditionallyRendered: false,
+  /**
+   * The props of modals and dialogs that decide if they're shown, for `onlyRewriteConditionallyRendered`. Both the
+   * component itself and elements around it count.
+   */
+  openProps: ['isOpen', 'open', 'show', 'visible'],
   /**
    * If the import declaration can't be removed because both a component and another function
    * is imported this lets you skip converting to a lazy component since it'll probably be
@@ -16,72 +132,487 @@ export const defaultOptions = {
    */
   onlyRewriteIfImportCanBeRemoved: false,
   /**
-   * Defaults to creating a PropertyAccessExpression of `React.lazy` but can be any expression you want.
+   * Components imported through a barrel file (like an `index.ts` that does `export * from './x'`) are
+   * lazy loaded from that barrel by default. Enabling this points the generated `import()` at the module
+   * that declares the component instead, so that the lazy chunk doesn't contain every other export of the barrel.
+   */
+  importFromDefiningModule: false,
+  /**
+   * A component is only rewritten if all references to it in the importing file are of these kinds.
+   * Rendering the component as `<X />` or passing it as a prop (`<Route component={X} />`) works the same
+   * for a lazy component, but things like `X.defaultProps` or `hoistStatics(X)` break at runtime once
+   * `X` is a lazy wrapper, which is why `propertyAccess`, `callArgument` and `other` aren't allowed by default.
+   */
+  allowedUsages: ['jsxTag', 'jsxAttribute'] as UsageKind[],
+  /**
+   * Defaults to `React.lazy` (or the wrapper of `framework`), through the file's own import of React if it has one
+   * that stays in the output, or else through an `import { lazy as _lazy } from 'react'` that is added to the file.
+   * Can be any expression you want.
    * Use `Options.createImportDeclaration()` if you need to import something from another module to call.
+   * Nodes should be created with the passed factory, which is `context.factory` on TypeScript 4.0 and later.
+   */
+  createComponentWrapperExpression: (factory: HookNodeFactory): ts.Expression => {
+    return factory.createPropertyAccessExpression(factory.createIdentifier('React'), factory.createIdentifier('lazy'));
+  },
+  /**
+   * Adds a `webpackChunkName` magic comment to the generated `import()` calls, so that webpack names
+   * the chunks after the result of `getChunkName()` instead of `0.js`, `1.js` and so on.
+   */
+  webpackChunkNames: false,
+  /**
+   * The chunk name to use when `webpackChunkNames` is enabled. Return `null` to let webpack name the chunk.
+   * Defaults to the path of the imported module relative to `rootDir`, the directory of the tsconfig, joined with `-`
+   * and without the extension or a trailing `index`, like `components-checkout` for `components/checkout/index.tsx`.
+   */
+  getChunkName: (
+    resolvedModulePath: string,
+    componentName: string,
+    currentFile: string,
+    rootDir: string,
+  ): string | null => {
+    return getDefaultChunkName(resolvedModulePath, currentFile, rootDir);
+  },
+  /**
+   * Adds a `webpackPrefetch: true` magic comment to the generated `import()` calls.
+   */
+  webpackPrefetch: false,
+  /**
+   * Adds a `webpackPreload: true` magic comment to the generated `import()` calls.
+   */
+  webpackPreload: false,
+  /**
+   * Adds a `webpackMode` magic comment to the generated `import()` calls.
+   */
+  webpackMode: null as WebpackMode | null,
+  /**
+   * Lets you start loading a lazy component before it's rendered, for example on hover or on a route transition.
+   * With `property` the lazy component gets a `preload()` method (`X.preload()`), and with `const` a sibling
+   * `preloadX()` function is created. Since neither exists in the source you have to declare them to use them,
+   * like `(X as any).preload()` or `declare const preloadX: () => Promise<unknown>;`. Components are skipped if
+   * the file declares a `preloadX` that stays in the output.
+   */
+  preload: 'none' as 'none' | 'property' | 'const',
+  /**
+   * Emits `loadable()` from `@loadable/component` instead of `createComponentWrapperExpression()`, called with the
+   * loader object that `@loadable/babel-plugin` generates, so that server rendering and `ChunkExtractor` work without
+   * Babel. Use `client` for the browser build and `server` for the Node build, where the imports stay synchronous.
+   * Chunk names are always added, from `getChunkName()`, since that's how the server knows which chunks to send.
+   */
+  loadable: null as LoadableMode | null,
+  /**
+   * Rendering a lazy component without a `<React.Suspense>` above it throws. Setting this to `usage` wraps
+   * each JSX element of a rewritten component in `<React.Suspense fallback={...}>`, and `root` wraps the
+   * outermost JSX element in the function that renders it instead.
+   */
+  suspenseBoundaries: 'none' as SuspenseBoundaries,
+  /**
+   * Creates the `fallback` prop passed to the Suspense boundaries inserted by `suspenseBoundaries`.
+   * Defaults to `null`.
    */
-  createComponentWrapperExpression: (typescript: typeof ts): ts.Expression => {
-    return typescript.createPropertyAccess(typescript.createIdentifier('React'), typescript.createIdentifier('lazy'));
+  createSuspenseFallbackExpression: (factory: HookNodeFactory, currentFile: string): ts.Expression => {
+    return factory.createNull();
   },
+  /**
+   * Don't insert a Suspense boundary around a usage that is already rendered inside a `<Suspense>` or
+   * `<React.Suspense>` element in the same file.
+   */
+  skipUsagesInsideSuspense: true,
   /**
    * Implement this if you want to import another module which contains your wrapper expression.
    * This can be used if you want to replace `React.lazy()` with something else.
    */
-  createImportDeclaration: (typescript: typeof ts, currentFile: string): ts.ImportDeclaration | null => {
+  createImportDeclaration: (factory: HookNodeFactory, currentFile: string): ts.ImportDeclaration | null => {
     return null;
   },
   /**
    * This lets you bail on rewriting imports on a per import declaration basis. If you have a list of
    * files to load sync (from for example https://github.com/avensia-oss/ts-transform-instrument-react-components)
-   * you can implement this function to only rewrite imports from those files.
+   * you can implement this function to only rewrite imports from those files. It's called with the components
+   * that would otherwise be rewritten, and you can return the local names of the ones to rewrite instead
+   * of `true` to only rewrite some of them.
    */
-  shouldRewrite: (importSpecifier: string, currentFile: string) => {
+  shouldRewrite: (importSpecifier: string, currentFile: string, context: ShouldRewriteContext): boolean | string[] => {
     return true;
   },
+  /**
+   * Only rewrite the components listed in this manifest, which is either an object or the path to a JSON file
+   * with export names keyed by file name, like `{ "src/Checkout.tsx": ["default", "CheckoutSummary"] }`. This
+   * is meant for lists of components that aren't rendered on first paint, as generated by for example
+   * https://github.com/avensia-oss/ts-transform-instrument-react-components. Relative paths are relative
+   * to the directory of the tsconfig, and entries that don't match an export in the program are warned about.
+   */
+  lazyComponentsManifest: null as string | LazyComponentsManifest | null,
+  /**
+   * Lazy loading a small component adds a network round trip for little gain. Setting this only rewrites a component
+   * if the files that its module pulls in, and that the importing file doesn't already load synchronously, weigh more
+   * than this in `moduleWeightUnit`. Only works with a `ts.Program`.
+   */
+  minimumModuleWeight: 0,
+  /**
+   * Weigh files by `bytes` of source or number of `statements`.
+   */
+  moduleWeightUnit: 'bytes' as WeightUnit,
+  /**
+   * Count files in `node_modules` towards the weight of a module. Packages are weighed by the files in the program,
+   * which are often declaration files rather than the code that ends up in the bundle.
+   */
+  includeNodeModulesInModuleWeight: false,
+  /**
+   * The entry points of your bundles, like `src/index.tsx`, relative to the directory of the tsconfig. Used by
+   * `synchronouslyLoadedModules` to find the modules that are loaded synchronously when an entry point is loaded.
+   */
+  entryPoints: [] as string[],
+  /**
+   * Lazy loading a module that is loaded synchronously anyway doesn't make any bundle smaller. A module is considered
+   * loaded synchronously if it's reachable through static imports from `entryPoints`, or if the current file imports
+   * something other than components from it. Imports that only import components are expected to be rewritten and
+   * aren't followed. With `skip` components from those modules aren't rewritten, with `report` they are but the report
+   * lists which file loads them synchronously, and `ignore` doesn't look. Only works with a `ts.Program`.
+   */
+  synchronouslyLoadedModules: 'ignore' as 'ignore' | 'skip' | 'report',
+  /**
+   * If the module that a component is lazy loaded from imports the current file, directly or through other modules,
+   * the lazy module can see the current file half evaluated or the chunks can deadlock. With `skip` components from
+   * modules like that aren't rewritten, and with `rewrite` they are but get a `circularImport` diagnostic. Either way the
+   * cycle is listed in the report. Only works with a `ts.Program`.
+   */
+  circularImports: 'skip' as 'skip' | 'rewrite',
+  /**
+   * Retries loading the module of a lazy component if it fails, and optionally reloads the page once all attempts
+   * have failed, which is what usually happens when the user has the page open while a new version is deployed. The
+   * `import()` calls are wrapped in calls to `retryImport()` from `retryRuntimeModule`, with these options.
+   */
+  retryChunkLoad: null as RetryOptions | null,
+  /**
+   * The module that `retryImport()` is imported from when `retryChunkLoad` is set. Can be changed to a module of
+   * your own that exports a `retryImport(load, options)` function.
+   */
+  retryRuntimeModule: '@avensia-oss/ts-transform-import-to-lazy-async-import/dist/src/runtime',
+  /**
+   * Lets you use this transformer without a `ts.Program`, such as with ts-loader's `transpileOnly` or other
+   * `ts.transpileModule()` based builds. Since there's no type information, a binding is considered a component
+   * if it starts with an uppercase char and is rendered as a JSX element in the importing file. Only relative
+   * imports are rewritten in this mode unless `includeModules` is set.
+   */
+  syntaxOnly: false,
+  /**
+   * Only rewrite imports of modules matching any of these patterns. Strings are matched against the whole
+   * module specifier and can contain `*` wildcards, like `./components/*`.
+   */
+  includeModules: [] as (string | RegExp)[],
+  /**
+   * Never rewrite imports of modules matching any of these patterns. Takes precedence over `includeModules`.
+   */
+  excludeModules: [] as (string | RegExp)[],
+  /**
+   * Called for each import declaration where at least one component was rewritten.
+   */
+  onRewrite: (importReport: ImportReport, currentFile: string): void => {},
+  /**
+   * Called for each import declaration that imports something that looks like a component
+   * (a binding with a leading uppercase char) but where nothing was rewritten. The reason for each
+   * binding is in `importReport.components[].skipReason`.
+   */
+  onSkip: (importReport: ImportReport, currentFile: string): void => {},
+  /**
+   * Called for each rewrite that might not behave like the original import, see `DiagnosticKind`. Each kind
+   * has its own code in `diagnosticCodes`. The diagnostics of all files are also returned by `getDiagnostics()`
+   * of the transformer factory.
+   */
+  onDiagnostic: (diagnostic: ts.Diagnostic): void => {},
+  /**
+   * Overrides the category of diagnostics by kind, like `{ renderedOutsideSuspense: ts.DiagnosticCategory.Error }`
+   */
+  diagnosticCategories: {} as DiagnosticCategories,
+  /**
+   * A path to a JSON file to write a report of all candidate imports to, keyed by source file. It's
+   * rewritten after each transformed file, which means that it's complete once the compilation is done.
+   */
+  reportFile: null as string | null,
 };
 export type Options = typeof defaultOptions;
 
+export type ShouldRewriteContext = {
+  /**
+   * The file that the import resolves to through the module resolution of the program, which takes
+   * `paths`, `baseUrl`, `index` files and packages into account. Not set if it couldn't be resolved
+   * or in `Options.syntaxOnly` mode.
+   */
+  resolvedFileName: string | undefined;
+  /**
+   * If the import resolves to a package in `node_modules`. In `Options.syntaxOnly` mode or if the
+   * import couldn't be resolved this is true for all non-relative imports.
+   */
+  isExternal: boolean;
+  components: {
+    /**
+     * The local name of the imported binding, or `Namespace.Member` for members of namespace imports
+     */
+    name: string;
+    exportName: string;
+    isDefault: boolean;
+  }[];
+};
+
+export type LazyImportTransformerFactory = ts.TransformerFactory<ts.SourceFile> & {
+  /**
+   * Returns the diagnostics of the files transformed so far, see `Options.onDiagnostic`
+   */
+  getDiagnostics(): ts.Diagnostic[];
+};
+
 export default function transformer(
-  program: ts.Program,
+  program: ts.Program | undefined,
   options: Partial<Options> = defaultOptions,
-): ts.TransformerFactory<ts.SourceFile> {
+): LazyImportTransformerFactory {
   options = {
     ...defaultOptions,
     ...options,
   };
-  if (!program) {
-    throw new Error('No ts.Program was passed to the transformer factory');
+  if (!program && !options.syntaxOnly) {
+    throw new Error('No ts.Program was passed to the transformer factory, pass one or enable Options.syntaxOnly');
+  }
+  if (options.syntaxOnly) {
+    program = undefined;
+  }
+  const profile = getFrameworkProfile(options.framework!);
+  if (options.suspenseBoundaries !== 'none' && !profile.suspenseExportName) {
+    throw new Error(`Options.suspenseBoundaries isn't supported for ${profile.moduleName}, which has no Suspense`);
+  }
+  if (options.suspenseBoundaries !== 'none' && options.loadable) {
+    throw new Error("Options.suspenseBoundaries can't be combined with Options.loadable, which doesn't use Suspense");
+  }
+  const rootDir = getProjectRootDir(program);
+  const manifest = options.lazyComponentsManifest ? loadManifest(options.lazyComponentsManifest, rootDir) : undefined;
+  if (manifest && program) {
+    const staleEntries = getStaleManifestEntries(manifest, program);
+    if (staleEntries.length) {
+      console.warn(
+        'ts-transform-import-to-lazy-async-import: These entries in the lazy components manifest ' +
+          "don't match any export in the program: " +
+          staleEntries.join(', '),
+      );
+    }
+  }
+  const state: TransformerState = {
+    program,
+    options: options as Options,
+    profile,
+    rootDir,
+    manifest,
+    moduleGraph: program
+      ? createModuleGraph(program, profile, options.moduleWeightUnit!, options.includeNodeModulesInModuleWeight!)
+      : undefined,
+    entryPointFiles: [],
+    entryPointSyncFiles: {},
+    report: {},
+    diagnostics: {},
+  };
+  if (program && options.entryPoints!.length) {
+    state.entryPointFiles = options.entryPoints!.map(entryPoint =>
+      getSourceFileOfEntryPoint(entryPoint, rootDir, program!),
+    );
+    state.entryPointSyncFiles = getReachableFiles(
+      state.moduleGraph!,
+      state.entryPointFiles,
+      (importer, moduleImport) => !moduleImport.mightBeRewritten,
+    );
   }
-  return (context: ts.TransformationContext) => (file: ts.SourceFile) =>
-    visitSourceFile(file, program, context, options as Options);
+  const factory = (context: ts.TransformationContext) => (file: ts.SourceFile) => visitSourceFile(file, context, state);
+  return Object.assign(factory, { getDiagnostics: () => getAllDiagnostics(state.diagnostics) });
 }
 
+/**
+ * State shared by all files that the transformer visits
+ */
+type TransformerState = {
+  /**
+   * Not set in `Options.syntaxOnly` mode
+   */
+  program: ts.Program | undefined;
+  options: Options;
+  profile: FrameworkProfile;
+  /**
+   * See `getProjectRootDir()`
+   */
+  rootDir: string;
+  /**
+   * Set if `Options.lazyComponentsManifest` is
+   */
+  manifest: NormalizedManifest | undefined;
+  /**
+   * Not set in `Options.syntaxOnly` mode
+   */
+  moduleGraph: ModuleGraph | undefined;
+  entryPointFiles: ts.SourceFile[];
+  /**
+   * The files reachable synchronously from `entryPointFiles`, see `getSyncImporter()`
+   */
+  entryPointSyncFiles: ReachableFiles;
+  report: Report;
+  /**
+   * Keyed by file name, so that files that are transformed again replace their old diagnostics
+   */
+  diagnostics: Diagnostics;
+};
+
+type FileState = TransformerState & {
+  sourceFile: ts.SourceFile;
+  context: ts.TransformationContext;
+  factory: NodeFactory;
+  /**
+   * The factory passed to option hooks, which also accepts the `ts.createX()` signatures of TypeScript 3
+   */
+  hookFactory: HookNodeFactory;
+  usages: Usages;
+  /**
+   * The files that are loaded synchronously by the current file, see `getSyncFiles()`
+   */
+  syncFiles?: ReachableFiles;
+  rewrites: Map<ts.ImportDeclaration, ImportedComponent[]>;
+  suspenseTargets: ts.Node[];
+  /**
+   * Loaders for modules that more than one lazy component is imported from, keyed by `getModuleKey()`
+   */
+  moduleLoaders: Map<string, { name: ts.Identifier; emitted: boolean }>;
+  /**
+   * The lazy bindings that replace rewritten members of namespace imports, keyed by the `Icons.Arrow` property accesses
+   */
+  namespaceMemberReplacements: Map<ts.Node, ts.Identifier>;
+  additionalImportEmitted: boolean;
+  /**
+   * The local name of a namespace or default import of React (or the module of `Options.framework`) that stays in
+   * the output, see `getFrameworkBindings()`
+   */
+  frameworkNamespace: string | undefined;
+  /**
+   * The local names of the wrapper and Suspense exports when there's no `frameworkNamespace`, from imports in the
+   * file or from imports that the transformer adds
+   */
+  frameworkExports: { [exportName: string]: ts.Identifier };
+  /**
+   * The exports in `frameworkExports` that there's no import of in the file, which are added along with the lazy components
+   */
+  addedFrameworkImports: string[];
+  /**
+   * The local name of `retryImport()`, once it's used in the file
+   */
+  retryImportName?: ts.Identifier;
+  /**
+   * The local name of `loadable()` when `Options.loadable` is set, once it's used in the file
+   */
+  loadableName?: ts.Identifier;
+};
+
 function visitSourceFile(
   sourceFile: ts.SourceFile,
-  program: ts.Program,
   context: ts.TransformationContext,
-  options: Options,
+  transformerState: TransformerState,
 ): ts.SourceFile {
+  const { program, options } = transformerState;
+  delete transformerState.diagnostics[sourceFile.fileName];
   const imports = sourceFile.statements.filter(s => ts.isImportDeclaration(s)) as ts.ImportDeclaration[];
-  const hasReactImport = !!imports.find(s => (s.moduleSpecifier as ts.StringLiteral).text === 'react');
-
-  if (hasReactImport && sourceFile.fileName.indexOf('.d.ts') === -1) {
-    // Any import which imports a variable with leading uppercase char
-    const potentialComponentImports = imports.filter(i => {
-      return (
-        (i.importClause &&
-          i.importClause.name &&
-          i.importClause.name.text[0] === i.importClause.name.text[0].toUpperCase()) ||
-        (i.importClause &&
-          i.importClause.namedBindings &&
-          ts.isNamedImports(i.importClause.namedBindings) &&
-          i.importClause.namedBindings.elements.some(e => e.name.text[0] === e.name.text[0].toUpperCase()))
-      );
-    });
+  const frameworkImports = imports.filter(i => isFrameworkImport(i, transformerState.profile));
+
+  if (mightRenderComponents(sourceFile, transformerState.profile)) {
+    // Any import which imports a variable with leading uppercase char or a namespace, except for React itself
+    const potentialComponentImports = imports.filter(
+      i => !isFrameworkImport(i, transformerState.profile) && getPotentialComponentBindings(i).length,
+    );
 
     if (potentialComponentImports.length) {
+      const factory = getNodeFactory(context);
+      const state: FileState = {
+        ...transformerState,
+        sourceFile,
+        context,
+        factory,
+        hookFactory: createHookNodeFactory(factory),
+        usages: getUsages(
+          sourceFile,
+          flatten(potentialComponentImports.map(getPotentialComponentBindings)).concat(
+            flatten(frameworkImports.map(getImportBindings)),
+          ),
+          program && program.getTypeChecker(),
+        ),
+        rewrites: new Map(),
+        suspenseTargets: [],
+        moduleLoaders: new Map(),
+        namespaceMemberReplacements: new Map(),
+        additionalImportEmitted: false,
+        frameworkNamespace: undefined,
+        frameworkExports: {},
+        addedFrameworkImports: [],
+      };
+      Object.assign(state, getFrameworkBindings(frameworkImports, state));
+      for (const binding of flatten(potentialComponentImports.map(getPotentialComponentBindings))) {
+        if (ts.isNamespaceImport(binding.parent)) {
+          Object.assign(state.usages, getNamespaceMemberUsages(binding.text, state.usages[binding.text]));
+        }
+      }
+      const reports: ImportReport[] = [];
+      const importCandidates = new Map<ts.ImportDeclaration, ImportedComponent[]>();
+      for (const potentialComponentImport of potentialComponentImports) {
+        const candidates = getRewrittenComponents(potentialComponentImport, state);
+        importCandidates.set(potentialComponentImport, candidates);
+        const components = candidates.filter(c => !c.skipReason);
+        if (components.length) {
+          state.rewrites.set(potentialComponentImport, components);
+        }
+        if (!candidates.length) {
+          // A namespace import without any uppercase members used
+          continue;
+        }
+        reports.push(
+          createImportReport(
+            potentialComponentImport,
+            getResolvedFileName(potentialComponentImport.moduleSpecifier, program),
+            candidates,
+          ),
+        );
+      }
+      addFileReport(sourceFile.fileName, reports, options, state.report);
+      const rewrittenComponents = flatten(Array.from(state.rewrites.values()));
+      for (const component of rewrittenComponents.filter(c => c.namespaceName)) {
+        component.namespaceMemberName = factory.createUniqueName(getLocalNameText(component), OPTIMISTIC_UNIQUE_NAME);
+        for (const usage of state.usages[component.name]) {
+          state.namespaceMemberReplacements.set(usage.node, component.namespaceMemberName);
+        }
+      }
+      for (const component of rewrittenComponents) {
+        const key = getModuleKey(component);
+        if (!state.moduleLoaders.has(key) && rewrittenComponents.filter(c => getModuleKey(c) === key).length > 1) {
+          state.moduleLoaders.set(key, { name: createModuleLoaderName(component, state), emitted: false });
+        }
+      }
+      if (options.suspenseBoundaries !== 'none') {
+        const rewrittenNames = rewrittenComponents.map(c => c.name);
+        state.suspenseTargets = getSuspenseTargets(
+          flatten(rewrittenNames.map(n => state.usages[n])),
+          options.suspenseBoundaries,
+          options.skipUsagesInsideSuspense,
+        );
+      }
+      // Taken before visiting the file since the imports are added where the first rewritten import was
+      if (rewrittenComponents.length && !options.loadable && usesDefaultWrapper(options)) {
+        getFrameworkExport('lazy', state);
+      }
+      if (state.suspenseTargets.length) {
+        getFrameworkExport('suspense', state);
+      }
+      const diagnostics = flatten(
+        potentialComponentImports.map(i => getImportDiagnostics(i, importCandidates.get(i)!, state)),
+      );
+      for (const diagnostic of diagnostics) {
+        options.onDiagnostic(diagnostic);
+      }
+      if (diagnostics.length) {
+        state.diagnostics[sourceFile.fileName] = diagnostics;
+      }
+
       const transformedSourceFile = ts.visitEachChild(
-        visitNode(sourceFile, potentialComponentImports, sourceFile, program, options),
-        childNode => visitNodeAndChildren(childNode, potentialComponentImports, sourceFile, program, context, options),
+        visitNode(sourceFile, state),
+        childNode => visitNodeAndChildren(childNode, state),
         context,
       );
       return transformedSourceFile;
@@ -90,242 +621,1110 @@ function visitSourceFile(
   return sourceFile;
 }
 
-function visitNodeAndChildren(
-  node: ts.Node,
-  potentialComponentImports: ts.ImportDeclaration[],
-  sourceFile: ts.SourceFile,
-  program: ts.Program,
-  context: ts.TransformationContext,
-  options: Options,
-): ts.Node | ts.Node[];
-function visitNodeAndChildren(
-  node: ts.Node,
-  potentialComponentImports: ts.ImportDeclaration[],
-  sourceFile: ts.SourceFile,
-  program: ts.Program,
-  context: ts.TransformationContext,
-  options: Options,
-): ts.Node | ts.Node[] {
-  const visitedNode = visitNode(node, potentialComponentImports, sourceFile, program, options);
+function isFrameworkImport(importDecl: ts.ImportDeclaration, profile: FrameworkProfile) {
+  return (importDecl.moduleSpecifier as ts.StringLiteral).text === profile.moduleName;
+}
+
+/**
+ * An import of React can only be used for `lazy` and `Suspense` if it stays in the output, which means that it has
+ * to be used as a value. JSX counts as using the import that is named like the JSX factory, such as `React` for
+ * `React.createElement`, except with the automatic JSX runtime.
+ */
+function getFrameworkBindings(frameworkImports: ts.ImportDeclaration[], state: FileState) {
+  const compilerOptions = state.context.getCompilerOptions();
+  const isUsedAsValue = (binding: ts.Identifier) => state.usages[binding.text].some(u => u.kind !== 'type');
+  let frameworkNamespace: string | undefined;
+  const frameworkExports: { [exportName: string]: ts.Identifier } = {};
+  for (const importDecl of frameworkImports.filter(i => i.importClause && !isTypeOnly(i.importClause))) {
+    for (const binding of getImportBindings(importDecl)) {
+      if (ts.isImportSpecifier(binding.parent)) {
+        const exportName = (binding.parent.propertyName || binding).text;
+        const { lazyExportName, suspenseExportName } = state.profile;
+        if ((exportName === lazyExportName || exportName === suspenseExportName) && isUsedAsValue(binding)) {
+          frameworkExports[exportName] = state.factory.createIdentifier(binding.text);
+        }
+      } else if (isUsedByJsx(binding, state.sourceFile, compilerOptions) || isUsedAsValue(binding)) {
+        frameworkNamespace = binding.text;
+      }
+    }
+  }
+  return { frameworkNamespace, frameworkExports };
+}
+
+/**
+ * Returns an expression for `React.lazy` or `React.Suspense` (or what they're called in `Options.framework`), and
+ * adds an import of it if the file doesn't have one
+ */
+function getFrameworkExport(kind: 'lazy' | 'suspense', state: FileState): ts.Expression {
+  const { factory, profile } = state;
+  const exportName = kind === 'lazy' ? profile.lazyExportName : profile.suspenseExportName!;
+  if (state.frameworkNamespace) {
+    return factory.createPropertyAccessExpression(factory.createIdentifier(state.frameworkNamespace), exportName);
+  }
+  if (!state.frameworkExports[exportName]) {
+    state.frameworkExports[exportName] = factory.createUniqueName('_' + exportName, OPTIMISTIC_UNIQUE_NAME);
+    state.addedFrameworkImports.push(exportName);
+  }
+  return state.frameworkExports[exportName];
+}
+
+function usesDefaultWrapper(options: Options) {
+  return options.createComponentWrapperExpression === defaultOptions.createComponentWrapperExpression;
+}
+
+function getImportBindings(importDecl: ts.ImportDeclaration) {
+  const bindings: ts.Identifier[] = [];
+  if (importDecl.importClause) {
+    if (importDecl.importClause.name) {
+      bindings.push(importDecl.importClause.name);
+    }
+    const namedBindings = importDecl.importClause.namedBindings;
+    if (namedBindings && ts.isNamedImports(namedBindings)) {
+      bindings.push(...namedBindings.elements.map(e => e.name));
+    } else if (namedBindings) {
+      bindings.push(namedBindings.name);
+    }
+  }
+  return bindings;
+}
+
+/**
+ * Namespace imports are always included since `<icons.Arrow />` is a component no matter the case of `icons`
+ */
+function getPotentialComponentBindings(importDecl: ts.ImportDeclaration) {
+  return getImportBindings(importDecl).filter(
+    b => ts.isNamespaceImport(b.parent) || b.text[0] === b.text[0].toUpperCase(),
+  );
+}
+
+function flatten<T>(arrays: T[][]) {
+  return ([] as T[]).concat(...arrays);
+}
+
+function visitNodeAndChildren(node: ts.Node, state: FileState): ts.Node | ts.Node[];
+function visitNodeAndChildren(node: ts.Node, state: FileState): ts.Node | ts.Node[] {
+  const visitedNode = visitNode(node, state);
 
   const visitedChildNode = ts.visitEachChild(
     visitedNode,
-    childNode => visitNodeAndChildren(childNode, potentialComponentImports, sourceFile, program, context, options),
-    context,
+    childNode => visitNodeAndChildren(childNode, state),
+    state.context,
   );
+  if (state.suspenseTargets.indexOf(node) !== -1) {
+    return wrapInSuspense(
+      visitedChildNode as ts.JsxElement | ts.JsxSelfClosingElement | ts.JsxFragment,
+      state.options.createSuspenseFallbackExpression(state.hookFactory, state.sourceFile.fileName),
+      getFrameworkExport('suspense', state) as ts.JsxTagNameExpression,
+      state.factory,
+    );
+  }
   return visitedChildNode;
 }
 
-function getImportedReactComponents(importDecl: ts.ImportDeclaration, typeChecker: ts.TypeChecker, options: Options) {
-  const componentNames: string[] = [];
-  if (importDecl.importClause) {
-    if (importDecl.importClause.name) {
-      if (isComponentType('default', importDecl, typeChecker)) {
-        componentNames.push(importDecl.importClause.name.text);
+type ImportedComponent = {
+  /**
+   * The local name of the imported binding, or `Namespace.Member` for members of namespace imports
+   */
+  name: string;
+  /**
+   * The local name of the namespace import, for members of namespace imports
+   */
+  namespaceName?: string;
+  /**
+   * The binding that replaces `Namespace.Member` once a member of a namespace import is rewritten
+   */
+  namespaceMemberName?: ts.Identifier;
+  /**
+   * The name of the export in the module that `moduleSpecifier` points to
+   */
+  exportName: string;
+  moduleSpecifier: ts.StringLiteral;
+  /**
+   * The file that `moduleSpecifier` resolves to, if it could be resolved
+   */
+  resolvedFileName: string | undefined;
+  /**
+   * Set if the binding won't be rewritten
+   */
+  skipReason?: SkipReason;
+  /**
+   * The weight of the code that lazy loading the component moves out of the current bundle, if `Options.minimumModuleWeight` is set
+   */
+  weight?: number;
+  /**
+   * A file that loads the lazy module synchronously anyway, if `Options.synchronouslyLoadedModules` is set
+   */
+  loadedSynchronouslyBy?: string;
+  /**
+   * Set if the lazy module imports the current file, like `['a.tsx', 'b.tsx', 'c.ts', 'a.tsx']`
+   */
+  circularImportPath?: string[];
+  /**
+   * How each usage is rendered, if `Options.onlyRewriteConditionallyRendered` is set
+   */
+  renderConditions?: UsageRenderCondition[];
+  /**
+   * A `@lazy-import` comment in front of the binding, or else in front of the import declaration
+   */
+  pragma?: ImportPragma;
+  /**
+   * The import specifier, default import name or namespace import that declares the binding, which the generated
+   * code for the component is mapped to in source maps
+   */
+  specifier: ts.Node;
+};
+
+/**
+ * Returns all bindings of an import declaration that might be components, before deciding
+ * which of them to rewrite.
+ */
+function getComponentCandidates(importDecl: ts.ImportDeclaration, state: FileState) {
+  const resolvedFileName = getResolvedFileName(importDecl.moduleSpecifier, state.program);
+  const moduleSpecifier = importDecl.moduleSpecifier as ts.StringLiteral;
+  const declarationPragma = getImportPragma(importDecl, state.sourceFile);
+  const candidates: ImportedComponent[] = [];
+  for (const binding of getPotentialComponentBindings(importDecl)) {
+    // The comment of a default import is in front of its name, and for the others in front of the specifier
+    const specifier = ts.isImportClause(binding.parent) ? binding : binding.parent;
+    const pragma = getImportPragma(specifier, state.sourceFile) || declarationPragma;
+    const candidate = { moduleSpecifier, resolvedFileName, pragma, specifier };
+    if (ts.isNamespaceImport(binding.parent)) {
+      const prefix = binding.text + '.';
+      for (const name of Object.keys(state.usages).filter(n => n.indexOf(prefix) === 0)) {
+        candidates.push({ ...candidate, name, namespaceName: binding.text, exportName: name.substr(prefix.length) });
       }
+    } else {
+      const exportName = ts.isImportSpecifier(binding.parent)
+        ? (binding.parent.propertyName || binding).text
+        : 'default';
+      candidates.push({ ...candidate, name: binding.text, exportName });
     }
+  }
+  return candidates;
+}
 
-    if (
-      !options.onlyRewriteDefaultExports &&
-      importDecl.importClause.namedBindings &&
-      ts.isNamedImports(importDecl.importClause.namedBindings)
-    ) {
-      for (const element of importDecl.importClause.namedBindings.elements) {
-        if (isComponentType((element.propertyName || element.name).text, importDecl, typeChecker)) {
-          componentNames.push(element.name.text);
-        }
+/**
+ * Components with a `@lazy-import: lazy` comment are only checked for what would break if they were rewritten
+ */
+function getSkipReason(candidate: ImportedComponent, importDecl: ts.ImportDeclaration, state: FileState) {
+  const { sourceFile, program, options } = state;
+  const isForced = isForcedLazy(candidate);
+  if (!isForced && !isIncludedModule(candidate.moduleSpecifier.text, options, !program)) {
+    return 'excludedModule';
+  }
+
+  const typeChecker = program && program.getTypeChecker();
+  const exportedSymbol = typeChecker && getExportedSymbol(candidate.exportName, importDecl, typeChecker);
+  const isComponent = typeChecker
+    ? !!exportedSymbol && isComponentType(exportedSymbol, typeChecker, state.profile)
+    : // Without type information the best we can do is to look for bindings that are rendered as JSX
+      (state.usages[candidate.name] || []).some(u => u.kind === 'jsxTag');
+  if (!isComponent) {
+    return 'notAComponent';
+  }
+  if (!isForced && options.onlyRewriteDefaultExports && candidate.exportName !== 'default') {
+    return 'onlyDefaultExports';
+  }
+  if (!isForced && options.onlyRewriteRoutes && !isMountedAsRoute(candidate, state)) {
+    return 'notARoute';
+  }
+  if (options.onlyRewriteConditionallyRendered && isRenderedUnconditionally(candidate, state) && !isForced) {
+    return 'renderedUnconditionally';
+  }
+  if (!hasOnlyAllowedUsages(state.usages[candidate.name] || [], state)) {
+    return 'unsafeUsage';
+  }
+  if (options.preload === 'const' && getDeclaredNames(sourceFile).indexOf(getPreloadName(candidate)) !== -1) {
+    return 'preloadNameTaken';
+  }
+
+  const componentInDefiningModule = exportedSymbol && getComponentInDefiningModule(candidate, exportedSymbol, state);
+  if (!isForced && state.manifest && !isListedInManifest(state.manifest, candidate, componentInDefiningModule, state)) {
+    return 'notInManifest';
+  }
+  if (!program) {
+    return undefined;
+  }
+
+  if (options.importFromDefiningModule) {
+    Object.assign(candidate, componentInDefiningModule);
+  }
+  return undefined;
+}
+
+/**
+ * The checks that need the module graph. They're left out when deciding which imports the current file keeps, see
+ * `getRemovedImports()`, since they depend on that themselves.
+ */
+function getModuleGraphSkipReason(candidate: ImportedComponent, state: FileState): SkipReason | undefined {
+  const { sourceFile, program, options, moduleGraph } = state;
+  const lazyFile = program && candidate.resolvedFileName && program.getSourceFile(candidate.resolvedFileName);
+  if (!moduleGraph || !lazyFile) {
+    return undefined;
+  }
+  const isForced = isForcedLazy(candidate);
+  if (lazyFile !== sourceFile) {
+    const importPath = getImportPath(moduleGraph, lazyFile, sourceFile);
+    if (importPath) {
+      candidate.circularImportPath = [sourceFile.fileName, ...importPath];
+      if (!isForced && options.circularImports === 'skip') {
+        return 'circularImport';
       }
     }
   }
-  return componentNames;
+  if (options.synchronouslyLoadedModules !== 'ignore') {
+    candidate.loadedSynchronouslyBy = getSyncImporter(moduleGraph, lazyFile, state);
+    if (!isForced && candidate.loadedSynchronouslyBy && options.synchronouslyLoadedModules === 'skip') {
+      return 'loadedSynchronously';
+    }
+  }
+  if (options.minimumModuleWeight) {
+    candidate.weight = getUniqueWeight(moduleGraph, lazyFile, getSyncFiles(moduleGraph, state));
+    if (!isForced && candidate.weight < options.minimumModuleWeight) {
+      return 'belowMinimumWeight';
+    }
+  }
+  return undefined;
+}
+
+/**
+ * With a program the component can be listed as an export of the imported module or of the module that defines it.
+ * Without one, relative imports are the only ones we can map to a file without module resolution.
+ */
+function isListedInManifest(
+  manifest: NormalizedManifest,
+  candidate: ImportedComponent,
+  componentInDefiningModule: Partial<ImportedComponent> | null | undefined,
+  state: FileState,
+) {
+  if (state.program) {
+    const listedAs = [candidate, { ...candidate, ...componentInDefiningModule }].map(c => ({
+      fileName: c.resolvedFileName,
+      exportName: c.exportName,
+    }));
+    return isInManifest(manifest, listedAs);
+  }
+  if (candidate.moduleSpecifier.text[0] !== '.') {
+    return false;
+  }
+  const modulePath = path.resolve(path.dirname(state.sourceFile.fileName), candidate.moduleSpecifier.text);
+  const listedAs = [modulePath, path.join(modulePath, 'index')].map(fileName => ({
+    fileName,
+    exportName: candidate.exportName,
+  }));
+  return isInManifest(manifest, listedAs);
 }
 
-function isComponentType(identifier: string, importDecl: ts.ImportDeclaration, typeChecker: ts.TypeChecker) {
+/**
+ * Returns the symbol that an export resolves to, following any re-exports along the way
+ * such as `export { default as X } from './x'`, `export * from './x'` or `import X from './x'; export { X };`.
+ */
+function getExportedSymbol(identifier: string, importDecl: ts.ImportDeclaration, typeChecker: ts.TypeChecker) {
   const importSymbol = typeChecker.getSymbolAtLocation(importDecl.moduleSpecifier);
   if (importSymbol) {
     const exports = typeChecker.getExportsOfModule(importSymbol);
     const exportedSymbol = exports.find(e => e.name === identifier);
-    if (exportedSymbol && exportedSymbol.valueDeclaration) {
-      if (ts.isClassDeclaration(exportedSymbol.valueDeclaration) && exportedSymbol.valueDeclaration.heritageClauses) {
-        const maybeComponentClass = exportedSymbol.valueDeclaration;
-        if (maybeComponentClass.heritageClauses) {
-          const baseClass = maybeComponentClass.heritageClauses.find(h => h.token === ts.SyntaxKind.ExtendsKeyword);
-          if (baseClass) {
-            const extendsReactComponent = !!baseClass.types.find(
-              t =>
-                ts.isExpressionWithTypeArguments(t) &&
-                ts.isPropertyAccessExpression(t.expression) &&
-                ts.isIdentifier(t.expression.expression) &&
-                t.expression.name.escapedText === 'Component' &&
-                t.expression.expression.escapedText === 'React',
-            );
-
-            return extendsReactComponent;
-          }
-        }
-      } else {
-        const func = getFunction(exportedSymbol.valueDeclaration);
-
-        if (func) {
-          const type = typeChecker.getTypeOfSymbolAtLocation(exportedSymbol, exportedSymbol.valueDeclaration);
-          const callSignatures = type.getCallSignatures();
-          if (callSignatures.length) {
-            const callSignature = callSignatures[0];
-            const returnType = typeChecker.getReturnTypeOfSignature(callSignature).getSymbol();
-            const returnParentType = returnType ? ((returnType as any).parent as ts.Symbol) : null;
-
-            if (
-              // props and context
-              (func.parameters.length === 1 || func.parameters.length === 2) &&
-              returnType &&
-              returnType.escapedName === 'Element' &&
-              returnParentType &&
-              returnParentType.escapedName === 'JSX'
-            ) {
-              return true;
-            }
-          }
-        }
-      }
+    if (exportedSymbol) {
+      return resolveAlias(exportedSymbol, typeChecker);
+    }
+  }
+  return undefined;
+}
+
+function isIncludedModule(moduleSpecifier: string, options: Options, syntaxOnly: boolean) {
+  const matches = (pattern: string | RegExp) =>
+    typeof pattern === 'string' ? globToRegExp(pattern).test(moduleSpecifier) : pattern.test(moduleSpecifier);
+
+  if (options.excludeModules.some(matches)) {
+    return false;
+  }
+  if (options.includeModules.length) {
+    return options.includeModules.some(matches);
+  }
+  // Without type information we can't tell components in packages apart from other things with uppercase names
+  return !syntaxOnly || moduleSpecifier[0] === '.';
+}
+
+function globToRegExp(glob: string) {
+  return new RegExp(
+    '^' +
+      glob
+        .split('*')
+        .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('.*') +
+      '$',
+  );
+}
+
+function getResolvedFileName(moduleSpecifier: ts.Expression, program: ts.Program | undefined) {
+  const sourceFile = program && getSourceFileOfModule(moduleSpecifier, program);
+  return sourceFile ? sourceFile.fileName : undefined;
+}
+
+/**
+ * The files that the current file loads synchronously. That's everything it imports except for the imports that its
+ * rewrites remove, and everything those files import except for imports that might be rewritten as well.
+ */
+function getSyncFiles(moduleGraph: ModuleGraph, state: FileState) {
+  if (!state.syncFiles) {
+    const removedImports = getRemovedImports(state);
+    state.syncFiles = getReachableFiles(moduleGraph, [state.sourceFile], (importer, moduleImport) =>
+      importer === state.sourceFile
+        ? !removedImports.some(i => i === moduleImport.declaration)
+        : !moduleImport.mightBeRewritten,
+    );
+  }
+  return state.syncFiles;
+}
+
+/**
+ * The import declarations of the current file that its rewrites remove, going by the checks that don't need the
+ * module graph. `Options.shouldRewrite()` isn't asked here, so that it's only called once per import.
+ */
+function getRemovedImports(state: FileState) {
+  return state.sourceFile.statements.filter(ts.isImportDeclaration).filter(importDecl => {
+    if (isFrameworkImport(importDecl, state.profile)) {
+      return false;
+    }
+    const components = getComponentCandidates(importDecl, state).filter(
+      c => !(c.pragma && c.pragma.mode === 'sync') && !getSkipReason(c, importDecl, state),
+    );
+    return components.length > 0 && getImportBindings(importDecl).every(b => isBindingRemoved(b, components, state));
+  });
+}
+
+/**
+ * Returns the name of a file that imports the module synchronously, either from the current file or from
+ * one of `Options.entryPoints`. Imports that might be rewritten aren't followed, see `ModuleImport.mightBeRewritten`.
+ */
+function getSyncImporter(moduleGraph: ModuleGraph, moduleFile: ts.SourceFile, state: FileState) {
+  const syncFiles = getSyncFiles(moduleGraph, state);
+  if (syncFiles.hasOwnProperty(moduleFile.fileName)) {
+    return syncFiles[moduleFile.fileName] || undefined;
+  }
+  if (state.entryPointSyncFiles.hasOwnProperty(moduleFile.fileName)) {
+    return state.entryPointSyncFiles[moduleFile.fileName] || moduleFile.fileName;
+  }
+  return undefined;
+}
+
+function getSourceFileOfEntryPoint(entryPoint: string, rootDir: string, program: ts.Program) {
+  const entryPointPath = path.resolve(rootDir, entryPoint);
+  const sourceFile = program
+    .getSourceFiles()
+    .find(f => path.resolve(program.getCurrentDirectory(), f.fileName) === entryPointPath);
+  if (!sourceFile) {
+    throw new Error(`The entry point '${entryPoint}' isn't part of the program`);
+  }
+  return sourceFile;
+}
+
+function isExternalModule(
+  moduleSpecifier: ts.StringLiteral,
+  resolvedFileName: string | undefined,
+  program: ts.Program | undefined,
+) {
+  const resolvedFile = program && resolvedFileName ? program.getSourceFile(resolvedFileName) : undefined;
+  if (program && resolvedFile) {
+    return program.isSourceFileFromExternalLibrary(resolvedFile);
+  }
+  return moduleSpecifier.text[0] !== '.' && moduleSpecifier.text[0] !== '/';
+}
+
+function resolveAlias(symbol: ts.Symbol, typeChecker: ts.TypeChecker) {
+  return symbol.flags & ts.SymbolFlags.Alias ? typeChecker.getAliasedSymbol(symbol) : symbol;
+}
+
+/**
+ * A lazy component is only a drop in replacement for the real component when rendered, so if the
+ * binding is used in any other way (like `X.defaultProps` or `hoistStatics(X)`) we leave it alone.
+ * Mounting it as a route is always allowed with `Options.onlyRewriteRoutes`, also as a property of a
+ * route object (`{ component: X }`) which otherwise counts as `other`.
+ */
+function hasOnlyAllowedUsages(usages: Usage[], state: FileState) {
+  const { options } = state;
+  const valueUsages = usages.filter(u => u.kind !== 'type');
+  return (
+    valueUsages.length > 0 &&
+    valueUsages.every(
+      u =>
+        options.allowedUsages.indexOf(u.kind) !== -1 ||
+        (options.onlyRewriteRoutes && isRouteUsage(u, getRouteNames(options))),
+    )
+  );
+}
+
+function isMountedAsRoute(candidate: ImportedComponent, state: FileState) {
+  const routeNames = getRouteNames(state.options);
+  return (state.usages[candidate.name] || []).some(u => isRouteUsage(u, routeNames));
+}
+
+/**
+ * Classifies the usages of a component for the report, even if it's forced to be lazy
+ */
+function isRenderedUnconditionally(candidate: ImportedComponent, state: FileState) {
+  candidate.renderConditions = getRenderConditions(state.usages[candidate.name] || [], state.options.openProps);
+  return candidate.renderConditions.some(c => c.condition === 'unconditional');
+}
+
+function getRouteNames(options: Options): RouteNames {
+  return {
+    elementNames: options.routeElementNames,
+    props: options.routeProps,
+    configNames: options.routeConfigNames,
+  };
+}
+
+/**
+ * Points the component at the module that declares it rather than the barrel file that it
+ * was imported through, so that the lazy chunk only contains that module.
+ */
+function getComponentInDefiningModule(
+  component: ImportedComponent,
+  exportedSymbol: ts.Symbol,
+  state: FileState,
+): Partial<ImportedComponent> | null {
+  const sourceFile = state.sourceFile;
+  const program = state.program!;
+  const typeChecker = program.getTypeChecker();
+  const definingFile = exportedSymbol.valueDeclaration!.getSourceFile();
+  if (definingFile.isDeclarationFile || program.isSourceFileFromExternalLibrary(definingFile)) {
+    return null;
+  }
+
+  const definingModuleSymbol = typeChecker.getSymbolAtLocation(definingFile);
+  if (!definingModuleSymbol || definingModuleSymbol === typeChecker.getSymbolAtLocation(component.moduleSpecifier)) {
+    return null;
+  }
+  const exportInDefiningModule = typeChecker
+    .getExportsOfModule(definingModuleSymbol)
+    .find(e => resolveAlias(e, typeChecker) === exportedSymbol);
+  if (!exportInDefiningModule) {
+    return null;
+  }
+
+  let moduleSpecifier = path
+    .relative(path.dirname(sourceFile.fileName), definingFile.fileName)
+    .replace(/\\/g, '/')
+    .replace(/\.(tsx?|jsx?)$/, '');
+  if (moduleSpecifier[0] !== '.') {
+    moduleSpecifier = './' + moduleSpecifier;
+  }
+
+  return {
+    exportName: exportInDefiningModule.name,
+    moduleSpecifier: state.factory.createStringLiteral(moduleSpecifier),
+    resolvedFileName: definingFile.fileName,
+  };
+}
+
+/**
+ * Decides which of the components imported by an import declaration should be lazy loaded. All
+ * candidates are returned, and the ones that shouldn't be rewritten have a `skipReason`.
+ */
+function getRewrittenComponents(node: ts.ImportDeclaration, state: FileState): ImportedComponent[] {
+  const { sourceFile, program, options } = state;
+  const candidates = getComponentCandidates(node, state);
+  const skip = (reason: SkipReason, names?: string[]) => {
+    for (const candidate of candidates.filter(c => !c.skipReason && (!names || names.indexOf(c.name) !== -1))) {
+      candidate.skipReason = reason;
     }
+  };
+
+  // Taken before `getSkipReason()` since `Options.importFromDefiningModule` changes what the candidates point to
+  const importedComponents = candidates.map(c => ({
+    name: c.name,
+    exportName: c.exportName,
+    isDefault: !!node.importClause && !!node.importClause.name && node.importClause.name.text === c.name,
+  }));
+
+  skip('syncPragma', candidates.filter(c => c.pragma && c.pragma.mode === 'sync').map(c => c.name));
+  for (const candidate of candidates.filter(c => !c.skipReason)) {
+    candidate.skipReason = getSkipReason(candidate, node, state) || getModuleGraphSkipReason(candidate, state);
+  }
+
+  // `Options.shouldRewrite()` is only asked about the components that don't have a `@lazy-import` comment
+  const rewritableNames = candidates.filter(c => !c.skipReason && !isForcedLazy(c)).map(c => c.name);
+  if (rewritableNames.length) {
+    const resolvedFileName = getResolvedFileName(node.moduleSpecifier, program);
+    const shouldRewrite = options.shouldRewrite((node.moduleSpecifier as ts.StringLiteral).text, sourceFile.fileName, {
+      resolvedFileName,
+      isExternal: isExternalModule(node.moduleSpecifier as ts.StringLiteral, resolvedFileName, program),
+      components: importedComponents.filter(c => rewritableNames.indexOf(c.name) !== -1),
+    });
+    if (Array.isArray(shouldRewrite)) {
+      skip('shouldRewriteReturnedFalse', rewritableNames.filter(n => shouldRewrite.indexOf(n) === -1));
+    } else if (!shouldRewrite) {
+      skip('shouldRewriteReturnedFalse');
+    }
+  }
+
+  const components = candidates.filter(c => !c.skipReason);
+  if (
+    components.length &&
+    options.onlyRewriteIfImportCanBeRemoved &&
+    !getImportBindings(node).every(b => isBindingRemoved(b, components, state))
+  ) {
+    skip('importCannotBeRemoved', components.filter(c => !isForcedLazy(c)).map(c => c.name));
   }
-  return false;
+  return candidates;
 }
 
-function getFunction(decl: ts.Declaration) {
-  if (ts.isFunctionDeclaration(decl)) {
-    return decl;
+function isForcedLazy(component: ImportedComponent) {
+  return !!component.pragma && component.pragma.mode === 'lazy';
+}
+
+/**
+ * Points out the rewrites of an import declaration that might not behave like the original import
+ */
+function getImportDiagnostics(
+  importDecl: ts.ImportDeclaration,
+  candidates: ImportedComponent[],
+  state: FileState,
+): ts.Diagnostic[] {
+  const { program, options } = state;
+  const categories = options.diagnosticCategories;
+  const moduleSpecifier = importDecl.moduleSpecifier as ts.StringLiteral;
+  const diagnostics: ts.Diagnostic[] = [];
+  if (program && candidates.length && !getResolvedFileName(moduleSpecifier, program)) {
+    diagnostics.push(
+      createDiagnostic(
+        'unresolvedModule',
+        moduleSpecifier,
+        `Module '${moduleSpecifier.text}' could not be resolved, ` +
+          'so the components imported from it could not be checked.',
+        categories,
+      ),
+    );
+  }
+
+  const components = state.rewrites.get(importDecl) || [];
+  const keptBindings = getImportBindings(importDecl).filter(b => !isBindingRemoved(b, components, state));
+  if (components.length && keptBindings.length) {
+    diagnostics.push(
+      createDiagnostic(
+        'importPartlyKept',
+        importDecl,
+        `The import of '${moduleSpecifier.text}' is kept for ${formatNames(keptBindings.map(b => b.text))}, ` +
+          `so the module is still loaded synchronously even though ${formatNames(components.map(c => c.name))} ` +
+          (components.length > 1 ? 'are lazy loaded.' : 'is lazy loaded.'),
+        categories,
+      ),
+    );
   }
 
-  if (ts.isExportAssignment(decl)) {
-    if (ts.isFunctionExpression(decl.expression) || ts.isArrowFunction(decl.expression)) {
-      return decl.expression;
+  for (const candidate of candidates.filter(c => c.skipReason === 'belowMinimumWeight')) {
+    diagnostics.push(
+      createDiagnostic(
+        'belowMinimumWeight',
+        candidate.specifier,
+        `\`${candidate.name}\` isn't lazy loaded since that would only move ${candidate.weight} ${
+          options.moduleWeightUnit
+        } ` + `out of the bundle, which is less than the minimumModuleWeight of ${options.minimumModuleWeight}.`,
+        categories,
+      ),
+    );
+  }
+
+  for (const component of components) {
+    if (component.circularImportPath) {
+      diagnostics.push(
+        createDiagnostic(
+          'circularImport',
+          importDecl,
+          `\`${component.name}\` is lazy loaded from a module that imports this file: ` +
+            component.circularImportPath.join(' -> '),
+          categories,
+        ),
+      );
+    }
+    for (const usage of state.usages[component.name]) {
+      if (usage.kind !== 'jsxTag' && usage.kind !== 'type') {
+        diagnostics.push(
+          createDiagnostic(
+            'usedAsValue',
+            usage.node,
+            `\`${component.name}\` is lazy loaded, ` +
+              'so this refers to the lazy component rather than the original export.',
+            categories,
+          ),
+        );
+      } else if (
+        state.profile.suspenseExportName &&
+        !state.options.loadable &&
+        !isRenderedInsideSuspense(usage, state.suspenseTargets)
+      ) {
+        diagnostics.push(
+          createDiagnostic(
+            'renderedOutsideSuspense',
+            usage.node,
+            `\`${component.name}\` is lazy loaded but not rendered inside a Suspense boundary in this file, ` +
+              'so one of the components that render it has to provide one.',
+            categories,
+          ),
+        );
+      }
     }
+  }
+  return diagnostics;
+}
+
+function formatNames(names: string[]) {
+  return names.map(n => '`' + n + '`').join(', ');
+}
+
+/**
+ * The chunk name from a pragma, or from `Options.getChunkName()` if `Options.webpackChunkNames` or `Options.loadable`
+ * is set. `loadable` always needs one, so it falls back to the default chunk name.
+ */
+function getComponentChunkName(component: ImportedComponent, state: FileState): string | null {
+  const { options, sourceFile, rootDir } = state;
+  if (component.pragma && component.pragma.chunkName) {
+    return component.pragma.chunkName;
+  }
+  if (!options.webpackChunkNames && !options.loadable) {
     return null;
   }
+  const modulePath = component.resolvedFileName || component.moduleSpecifier.text;
+  const chunkName = options.getChunkName(modulePath, component.name, sourceFile.fileName, rootDir);
+  return chunkName || (options.loadable ? getDefaultChunkName(modulePath, sourceFile.fileName, rootDir) : null);
+}
+
+function getImportCallArgument(component: ImportedComponent, state: FileState): ts.Expression {
+  const { options } = state;
+  const comments: WebpackMagicComments = {
+    webpackChunkName: getComponentChunkName(component, state),
+    webpackPrefetch: options.webpackPrefetch,
+    webpackPreload: options.webpackPreload,
+    webpackMode: options.webpackMode,
+  };
+  if (!comments.webpackChunkName && !comments.webpackPrefetch && !comments.webpackPreload && !comments.webpackMode) {
+    return component.moduleSpecifier;
+  }
+  // The comments are attached to a copy since the original specifier might still be used by the import declaration
+  return addWebpackMagicComments(state.factory.createStringLiteral(component.moduleSpecifier.text), comments);
+}
+
+/**
+ * A binding can be removed from the import declaration if it's a rewritten component, or a namespace import
+ * where every use as a value is a rewritten member.
+ */
+function isBindingRemoved(binding: ts.Identifier, components: ImportedComponent[], state: FileState) {
+  if (!ts.isNamespaceImport(binding.parent)) {
+    return components.some(c => !c.namespaceName && c.name === binding.text);
+  }
+  const rewrittenMembers = components.filter(c => c.namespaceName === binding.text).map(c => c.name);
+  return (
+    rewrittenMembers.length > 0 &&
+    state.usages[binding.text]
+      .filter(u => u.kind !== 'type')
+      .every(
+        u =>
+          ts.isPropertyAccessExpression(u.node.parent) &&
+          rewrittenMembers.indexOf(binding.text + '.' + u.node.parent.name.text) !== -1,
+      )
+  );
+}
+
+function getModuleKey(component: ImportedComponent) {
+  return component.resolvedFileName || component.moduleSpecifier.text;
+}
 
-  if (ts.isVariableStatement(decl) || ts.isVariableDeclaration(decl)) {
-    const declaration = ts.isVariableStatement(decl) ? decl.declarationList.declarations[0] : decl;
-    if (
-      declaration.initializer &&
-      (ts.isArrowFunction(declaration.initializer) || ts.isFunctionExpression(declaration.initializer))
+function createModuleLoaderName(component: ImportedComponent, state: FileState) {
+  const moduleName = getModuleBaseName(component.resolvedFileName || component.moduleSpecifier.text);
+  return state.factory.createUniqueName('_' + moduleName.replace(/[^\w$]/g, '_'), OPTIMISTIC_UNIQUE_NAME);
+}
+
+function getLocalName(component: ImportedComponent) {
+  return component.namespaceMemberName || component.name;
+}
+
+/**
+ * `Icons_Arrow` for `Icons.Arrow`
+ */
+function getLocalNameText(component: ImportedComponent) {
+  return component.name.replace('.', '_');
+}
+
+/**
+ * The name of the function that `Options.preload` creates with `const`
+ */
+function getPreloadName(component: ImportedComponent) {
+  return 'preload' + getLocalNameText(component);
+}
+
+/**
+ * The names declared at the top level of a file that stay in the output, which the `preloadX()` functions must not
+ * clash with. Ambient declarations like `declare const preloadX: () => Promise<unknown>;` are how they're meant to be
+ * used, so those don't count.
+ */
+function getDeclaredNames(sourceFile: ts.SourceFile) {
+  const names: string[] = [];
+  const addBindingNames = (name: ts.BindingName) => {
+    if (ts.isIdentifier(name)) {
+      names.push(name.text);
+    } else {
+      for (const element of name.elements) {
+        if (!ts.isOmittedExpression(element)) {
+          addBindingNames(element.name);
+        }
+      }
+    }
+  };
+  for (const statement of sourceFile.statements) {
+    const isAmbient = (statement.modifiers || []).some(m => m.kind === ts.SyntaxKind.DeclareKeyword);
+    if (isAmbient) {
+      continue;
+    }
+    if (ts.isImportDeclaration(statement) && statement.importClause && !isTypeOnly(statement.importClause)) {
+      names.push(...getImportBindings(statement).map(b => b.text));
+    } else if (ts.isVariableStatement(statement)) {
+      statement.declarationList.declarations.forEach(d => addBindingNames(d.name));
+    } else if (
+      (ts.isFunctionDeclaration(statement) ||
+        ts.isClassDeclaration(statement) ||
+        ts.isEnumDeclaration(statement) ||
+        ts.isModuleDeclaration(statement)) &&
+      statement.name &&
+      ts.isIdentifier(statement.name)
     ) {
-      return declaration.initializer;
+      names.push(statement.name.text);
     }
   }
-  return null;
+  return names;
 }
 
-function visitNode(
-  node: ts.Node,
-  potentialComponentImports: ts.ImportDeclaration[],
-  sourceFile: ts.SourceFile,
-  program: ts.Program,
-  options: Options,
-): any /* TODO */ {
-  if (ts.isImportDeclaration(node) && potentialComponentImports.indexOf(node) !== -1 && node.importClause) {
-    if (!options.shouldRewrite((node.moduleSpecifier as ts.StringLiteral).text, sourceFile.fileName)) {
-      return node;
+function createLazyComponentStatements(component: ImportedComponent, state: FileState): ts.Statement[] {
+  const { options, factory } = state;
+  if (options.loadable) {
+    return createLoadableComponentStatements(component, state);
+  }
+  const statements: ts.Statement[] = [];
+  let importCall = createLoadCall(component, state);
+
+  // Components imported from the same module share a single loader
+  const moduleLoader = state.moduleLoaders.get(getModuleKey(component));
+  if (moduleLoader) {
+    if (!moduleLoader.emitted) {
+      statements.push(
+        createConst(
+          moduleLoader.name,
+          factory.createArrowFunction(undefined, undefined, [], undefined, undefined, importCall),
+          state,
+        ),
+      );
+      moduleLoader.emitted = true;
     }
+    importCall = factory.createCallExpression(moduleLoader.name, undefined, []);
+  }
+
+  let arrowBody: ts.CallExpression = importCall;
+  if (component.exportName !== 'default') {
+    const pickExport = factory.createArrowFunction(
+      undefined,
+      undefined,
+      [factory.createParameterDeclaration(undefined, undefined, 'm')],
+      undefined,
+      undefined,
+      state.profile.createNamedExportResult(state.hookFactory, factory.createIdentifier('m'), component.exportName),
+    );
+    ts.setSourceMapRange(pickExport, component.specifier);
+    arrowBody = factory.createCallExpression(factory.createPropertyAccessExpression(importCall, 'then'), undefined, [
+      pickExport,
+    ]);
+  }
+  const loader =
+    moduleLoader && component.exportName === 'default'
+      ? moduleLoader.name
+      : factory.createArrowFunction(undefined, undefined, [], undefined, undefined, arrowBody);
 
-    const defaultImportName = node.importClause.name ? node.importClause.name.escapedText.toString() : undefined;
-    const componentNames = getImportedReactComponents(node, program.getTypeChecker(), options);
-    if (componentNames.length) {
-      const defaultName =
-        defaultImportName && componentNames.indexOf(defaultImportName) !== -1 ? undefined : defaultImportName;
+  if (options.preload === 'none') {
+    return [...statements, createConst(getLocalName(component), createWrapperCall(loader, state), state)];
+  }
 
-      const additionalStatements: ts.Statement[] = componentNames.map(c => {
-        const importCall = ts.createCall(
-          { kind: ts.SyntaxKind.ImportKeyword, flags: ts.NodeFlags.None } as ts.ImportExpression,
+  // The preload function and the lazy component share the same loader, so that the module is only requested once
+  const loaderName =
+    options.preload === 'const'
+      ? factory.createIdentifier(getPreloadName(component))
+      : factory.createUniqueName('load' + getLocalNameText(component), OPTIMISTIC_UNIQUE_NAME);
+  const lazyComponent =
+    options.preload === 'const'
+      ? createWrapperCall(loaderName, state)
+      : factory.createCallExpression(
+          factory.createPropertyAccessExpression(factory.createIdentifier('Object'), 'assign'),
           undefined,
-          [node.moduleSpecifier as ts.StringLiteral],
+          [
+            createWrapperCall(loaderName, state),
+            factory.createObjectLiteralExpression([factory.createPropertyAssignment('preload', loaderName)]),
+          ],
         );
+  return [
+    ...statements,
+    createConst(loaderName, loader, state),
+    createConst(getLocalName(component), lazyComponent, state),
+  ];
+}
 
-        let arrowBody: ts.CallExpression = importCall;
-        if (defaultImportName !== c) {
-          const element = (node.importClause!.namedBindings as ts.NamedImports).elements.find(
-            e => e.name.escapedText == c,
-          );
-          if (element) {
-            arrowBody = ts.createCall(ts.createPropertyAccess(importCall, 'then'), undefined, [
-              ts.createArrowFunction(
-                undefined,
-                undefined,
-                [ts.createParameter(undefined, undefined, undefined, 'm', undefined, undefined, undefined)],
-                undefined,
+/**
+ * `const X = loadable({...}, { resolveComponent: m => m.X })`, where the loader object is shared by the components
+ * of a module like the `import()` loaders are. `loadable()` components already have a `preload()` method, so
+ * `Options.preload` only has to add the `preloadX()` function for `const`.
+ */
+function createLoadableComponentStatements(component: ImportedComponent, state: FileState): ts.Statement[] {
+  const { options, factory } = state;
+  const statements: ts.Statement[] = [];
+  let loader: ts.Expression;
+  const moduleLoader = state.moduleLoaders.get(getModuleKey(component));
+  if (moduleLoader) {
+    if (!moduleLoader.emitted) {
+      statements.push(...createLoadableLoaderStatements(component, moduleLoader.name, state));
+      moduleLoader.emitted = true;
+    }
+    loader = moduleLoader.name;
+  } else {
+    const loaderName = createModuleLoaderName(component, state);
+    statements.push(...createLoadableLoaderStatements(component, loaderName, state));
+    loader = loaderName;
+  }
+
+  const loadableArguments = [loader];
+  if (component.exportName !== 'default') {
+    const resolveComponent = factory.createArrowFunction(
+      undefined,
+      undefined,
+      [factory.createParameterDeclaration(undefined, undefined, 'm')],
+      undefined,
+      undefined,
+      factory.createPropertyAccessExpression(factory.createIdentifier('m'), component.exportName),
+    );
+    ts.setSourceMapRange(resolveComponent, component.specifier);
+    loadableArguments.push(
+      factory.createObjectLiteralExpression([factory.createPropertyAssignment('resolveComponent', resolveComponent)]),
+    );
+  }
+  if (!state.loadableName) {
+    state.loadableName = factory.createUniqueName('_loadable', OPTIMISTIC_UNIQUE_NAME);
+  }
+  const localName = getLocalName(component);
+  statements.push(
+    createConst(localName, factory.createCallExpression(state.loadableName, undefined, loadableArguments), state),
+  );
+  if (options.preload === 'const') {
+    const load = factory.createCallExpression(
+      factory.createPropertyAccessExpression(
+        typeof localName === 'string' ? factory.createIdentifier(localName) : localName,
+        'load',
+      ),
+      undefined,
+      [],
+    );
+    statements.push(
+      createConst(
+        getPreloadName(component),
+        factory.createArrowFunction(undefined, undefined, [], undefined, undefined, load),
+        state,
+      ),
+    );
+  }
+  return statements;
+}
+
+/**
+ * The loader object of a module, and for `server` the synchronous import that it returns
+ */
+function createLoadableLoaderStatements(component: ImportedComponent, name: ts.Identifier, state: FileState) {
+  const { options, factory } = state;
+  const moduleSpecifier = component.moduleSpecifier.text;
+  const chunkName = getComponentChunkName(component, state)!;
+  if (options.loadable === 'client') {
+    return [
+      createConst(
+        name,
+        createLoadableLoader(factory, createLoadCall(component, state), moduleSpecifier, chunkName),
+        state,
+      ),
+    ];
+  }
+  const moduleNamespace = factory.createUniqueName(name.text + '_module', OPTIMISTIC_UNIQUE_NAME);
+  return [
+    factory.createImportDeclaration(
+      undefined,
+      factory.createImportClause(false, undefined, factory.createNamespaceImport(moduleNamespace)),
+      factory.createStringLiteral(moduleSpecifier),
+    ),
+    createConst(name, createSyncLoadableLoader(factory, moduleNamespace, moduleSpecifier, chunkName), state),
+  ];
+}
+
+/**
+ * Creates the `import()` call for a component, with retries if `Options.retryChunkLoad` is set
+ */
+function createLoadCall(component: ImportedComponent, state: FileState): ts.CallExpression {
+  const { options, factory } = state;
+  const importCall = createImportCall(factory, getImportCallArgument(component, state));
+  if (!options.retryChunkLoad) {
+    return importCall;
+  }
+  if (!state.retryImportName) {
+    state.retryImportName = factory.createUniqueName('_retryImport', OPTIMISTIC_UNIQUE_NAME);
+  }
+  const retryOptions = options.retryChunkLoad;
+  const properties = Object.keys(retryOptions)
+    .filter(key => retryOptions[key as keyof RetryOptions] !== undefined)
+    .map(key => {
+      const value = retryOptions[key as keyof RetryOptions];
+      return factory.createPropertyAssignment(
+        key,
+        typeof value === 'boolean'
+          ? value
+            ? factory.createTrue()
+            : factory.createFalse()
+          : factory.createNumericLiteral(value!),
+      );
+    });
+  return factory.createCallExpression(state.retryImportName, undefined, [
+    factory.createArrowFunction(undefined, undefined, [], undefined, undefined, importCall),
+    ...(properties.length ? [factory.createObjectLiteralExpression(properties)] : []),
+  ]);
+}
+
+function createWrapperCall(loader: ts.Expression, state: FileState) {
+  return state.factory.createCallExpression(
+    usesDefaultWrapper(state.options)
+      ? getFrameworkExport('lazy', state)
+      : state.options.createComponentWrapperExpression(state.hookFactory),
+    undefined,
+    [loader],
+  );
+}
+
+function createConst(name: string | ts.Identifier, initializer: ts.Expression, state: FileState) {
+  const { factory } = state;
+  return factory.createVariableStatement(
+    undefined,
+    factory.createVariableDeclarationList(
+      [factory.createVariableDeclaration(name, undefined, undefined, initializer)],
+      ts.NodeFlags.Const,
+    ),
+  );
+}
+
+function visitNode(node: ts.Node, state: FileState): any /* TODO */ {
+  const { sourceFile, options, factory } = state;
+  if (state.namespaceMemberReplacements.has(node)) {
+    return state.namespaceMemberReplacements.get(node);
+  }
+  if (ts.isImportDeclaration(node) && state.rewrites.has(node) && node.importClause) {
+    const components = state.rewrites.get(node)!;
+    if (components.length) {
+      const additionalStatements = flatten(components.map(c => createLazyComponentStatements(c, state)));
+
+      if (!state.additionalImportEmitted) {
+        const additionalImport = options.createImportDeclaration(state.hookFactory, sourceFile.fileName);
+        if (state.addedFrameworkImports.length) {
+          additionalStatements.unshift(
+            factory.createImportDeclaration(
+              undefined,
+              factory.createImportClause(
+                false,
                 undefined,
-                ts.createParen(
-                  ts.createObjectLiteral([
-                    ts.createPropertyAssignment(
-                      'default',
-                      ts.createPropertyAccess(
-                        ts.createIdentifier('m'),
-                        (element.propertyName || element.name).escapedText.toString(),
-                      ),
+                factory.createNamedImports(
+                  state.addedFrameworkImports.map(exportName =>
+                    factory.createImportSpecifier(
+                      false,
+                      factory.createIdentifier(exportName),
+                      state.frameworkExports[exportName],
                     ),
-                  ]),
+                  ),
                 ),
               ),
-            ]);
-          }
+              factory.createStringLiteral(state.profile.moduleName),
+            ),
+          );
         }
-
-        return ts.createVariableStatement(
-          undefined,
-          ts.createVariableDeclarationList(
-            [
-              ts.createVariableDeclaration(
-                c,
+        if (state.loadableName) {
+          additionalStatements.unshift(
+            factory.createImportDeclaration(
+              undefined,
+              factory.createImportClause(false, state.loadableName, undefined),
+              factory.createStringLiteral('@loadable/component'),
+            ),
+          );
+        }
+        if (state.retryImportName) {
+          additionalStatements.unshift(
+            factory.createImportDeclaration(
+              undefined,
+              factory.createImportClause(
+                false,
                 undefined,
-                ts.createCall(options.createComponentWrapperExpression(ts), undefined, [
-                  ts.createArrowFunction(undefined, undefined, [], undefined, undefined, arrowBody),
+                factory.createNamedImports([
+                  factory.createImportSpecifier(false, factory.createIdentifier('retryImport'), state.retryImportName),
                 ]),
               ),
-            ],
-            ts.NodeFlags.Const,
-          ),
-        );
-      });
-
-      const additionalImport = options.createImportDeclaration(ts, sourceFile.fileName);
-      if (additionalImport) {
-        additionalStatements.unshift(additionalImport);
+              factory.createStringLiteral(options.retryRuntimeModule),
+            ),
+          );
+        }
+        if (additionalImport) {
+          additionalStatements.unshift(additionalImport);
+        }
+        state.additionalImportEmitted = true;
       }
 
-      const importedNames =
-        (node.importClause!.name && componentNames.indexOf(node.importClause!.name!.escapedText.toString()) !== -1
-          ? 1
-          : 0) +
-        (node.importClause!.namedBindings ? (node.importClause!.namedBindings as ts.NamedImports).elements.length : 0);
+      const removedBindings = getImportBindings(node).filter(b => isBindingRemoved(b, components, state));
+      const isRemoved = (binding: ts.Identifier) => removedBindings.indexOf(binding) !== -1;
+      const { name, namedBindings } = node.importClause;
+      const remainingName = name && !isRemoved(name) ? factory.createIdentifier(name.text) : undefined;
+      const remainingNamedBindings =
+        namedBindings && ts.isNamedImports(namedBindings)
+          ? removeImportNames(namedBindings, removedBindings.map(b => b.text), factory)
+          : namedBindings && !isRemoved(namedBindings.name)
+          ? namedBindings
+          : undefined;
 
-      if (importedNames === componentNames.length) {
-        return additionalStatements;
-      } else if (!options.onlyRewriteIfImportCanBeRemoved) {
-        return [
+      if (!remainingName && !remainingNamedBindings) {
+        return replaceImportDeclaration(node, additionalStatements);
+      } else {
+        return replaceImportDeclaration(node, [
           ...additionalStatements,
-          ts.createImportDeclaration(
-            node.decorators,
-            node.modifiers,
-            ts.createImportClause(
-              defaultName ? ts.createIdentifier(defaultName) : undefined,
-              node.importClause!.namedBindings
-                ? removeImportNames(node.importClause!.namedBindings as ts.NamedImports, componentNames)
-                : undefined,
-            ),
+          factory.createImportDeclaration(
+            node.modifiers as ReadonlyArray<ts.Modifier> | undefined,
+            factory.createImportClause(false, remainingName, remainingNamedBindings),
             node.moduleSpecifier,
           ),
-        ];
+        ]);
       }
     }
   }
   return node;
 }
 
-function removeImportNames(namedBindings: ts.NamedImports, importNamesToRemove: string[]): ts.NamedImports {
-  return {
-    ...namedBindings,
-    elements: (namedBindings.elements.filter(
-      e => importNamesToRemove.indexOf((e.propertyName || e.name).text) === -1,
-    ) as any) as ts.NodeArray<ts.ImportSpecifier>,
-  };
+/**
+ * Gives the statements that replace an import declaration its position, so that they're mapped to it in source
+ * maps. The comments in front of the import end up in front of the first statement and the comments after it
+ * after the last one.
+ */
+function replaceImportDeclaration(node: ts.ImportDeclaration, statements: ts.Statement[]) {
+  statements.forEach((statement, i) => {
+    ts.setOriginalNode(statement, node);
+    ts.setTextRange(statement, node);
+    ts.setCommentRange(statement, {
+      pos: i === 0 ? node.pos : -1,
+      end: i === statements.length - 1 ? node.end : -1,
+    });
+  });
+  return statements;
+}
+
+function removeImportNames(
+  namedBindings: ts.NamedImports,
+  importNamesToRemove: string[],
+  factory: NodeFactory,
+): ts.NamedImports | undefined {
+  const elements = namedBindings.elements.filter(e => importNamesToRemove.indexOf(e.name.text) === -1);
+  if (!elements.length) {
+    return undefined;
+  }
+  return factory.createNamedImports(elements);
 }
@@ -0,0 +1,233 @@
+import * as ts from 'typescript';
+import { NodeFactory } from './factory';
+
+export type LoadableMode = 'client' | 'server';
+
+/**
+ * Creates the loader object that `@loadable/babel-plugin` passes to `loadable()` in place of `() => import(x)`:
+ *
+ * ```js
+ * {
+ *   resolved: {},
+ *   chunkName: function () { return "x"; },
+ *   isReady: function () { ... },
+ *   importAsync: () => import(/* webpackChunkName: "x" *\/ "./x"),
+ *   requireAsync: function () { ... },
+ *   requireSync: function () { ... },
+ *   resolve: function () { ... },
+ * }
+ * ```
+ *
+ * `isReady()` and `requireSync()` are what let a component render synchronously during server rendering and
+ * during hydration of chunks that are already loaded, and `chunkName()` is what `ChunkExtractor` collects.
+ */
+export function createLoadableLoader(
+  factory: NodeFactory,
+  importAsync: ts.Expression,
+  moduleSpecifier: string,
+  chunkName: string,
+) {
+  const key = factory.createIdentifier('key');
+  const id = factory.createIdentifier('id');
+  const resolved = factory.createIdentifier('resolved');
+  const thisResolved = () => factory.createPropertyAccessExpression(factory.createThis(), 'resolved');
+  const resolveKey = (name: ts.Identifier) => createConstStatement(factory, name, callThis(factory, 'resolve'));
+  const webpackModules = factory.createIdentifier('__webpack_modules__');
+  const webpackRequire = factory.createIdentifier('__webpack_require__');
+
+  return factory.createObjectLiteralExpression(
+    [
+      factory.createPropertyAssignment('resolved', factory.createObjectLiteralExpression([])),
+      createMethod(factory, 'chunkName', [factory.createReturnStatement(factory.createStringLiteral(chunkName))]),
+      createMethod(factory, 'isReady', [
+        resolveKey(key),
+        factory.createIfStatement(
+          factory.createBinaryExpression(
+            factory.createElementAccessExpression(thisResolved(), key),
+            ts.SyntaxKind.ExclamationEqualsEqualsToken,
+            factory.createTrue(),
+          ),
+          createReturnBlock(factory, factory.createFalse()),
+        ),
+        factory.createIfStatement(
+          isDefined(factory, webpackModules),
+          createReturnBlock(
+            factory,
+            factory.createLogicalNot(
+              factory.createLogicalNot(factory.createElementAccessExpression(webpackModules, key)),
+            ),
+          ),
+        ),
+        factory.createReturnStatement(factory.createFalse()),
+      ]),
+      factory.createPropertyAssignment(
+        'importAsync',
+        factory.createArrowFunction(undefined, undefined, [], undefined, undefined, importAsync),
+      ),
+      createMethod(factory, 'requireAsync', [
+        resolveKey(key),
+        factory.createExpressionStatement(
+          factory.createBinaryExpression(
+            factory.createElementAccessExpression(thisResolved(), key),
+            ts.SyntaxKind.EqualsToken,
+            factory.createFalse(),
+          ),
+        ),
+        factory.createReturnStatement(
+          factory.createCallExpression(
+            factory.createPropertyAccessExpression(callThis(factory, 'importAsync'), 'then'),
+            undefined,
+            [
+              factory.createArrowFunction(
+                undefined,
+                undefined,
+                [factory.createParameterDeclaration(undefined, undefined, resolved)],
+                undefined,
+                undefined,
+                factory.createBlock(
+                  [
+                    factory.createExpressionStatement(
+                      factory.createBinaryExpression(
+                        factory.createElementAccessExpression(thisResolved(), key),
+                        ts.SyntaxKind.EqualsToken,
+                        factory.createTrue(),
+                      ),
+                    ),
+                    factory.createReturnStatement(resolved),
+                  ],
+                  true,
+                ),
+              ),
+            ],
+          ),
+        ),
+      ]),
+      createMethod(factory, 'requireSync', [
+        resolveKey(id),
+        factory.createIfStatement(
+          isDefined(factory, webpackRequire),
+          createReturnBlock(factory, factory.createCallExpression(webpackRequire, undefined, [id])),
+        ),
+        factory.createReturnStatement(
+          factory.createCallExpression(createEval(factory, 'module.require'), undefined, [id]),
+        ),
+      ]),
+      createResolveMethod(factory, moduleSpecifier),
+    ],
+    true,
+  );
+}
+
+/**
+ * The loader object for server builds, where `moduleNamespace` is a synchronous `import * as` of the module. It
+ * always reports itself as ready, so the component is rendered without ever being loaded asynchronously, but still
+ * tells `ChunkExtractor` which chunk it's in on the client.
+ */
+export function createSyncLoadableLoader(
+  factory: NodeFactory,
+  moduleNamespace: ts.Identifier,
+  moduleSpecifier: string,
+  chunkName: string,
+) {
+  const resolvedPromise = () =>
+    factory.createCallExpression(
+      factory.createPropertyAccessExpression(factory.createIdentifier('Promise'), 'resolve'),
+      undefined,
+      [moduleNamespace],
+    );
+  return factory.createObjectLiteralExpression(
+    [
+      createMethod(factory, 'chunkName', [factory.createReturnStatement(factory.createStringLiteral(chunkName))]),
+      createMethod(factory, 'isReady', [factory.createReturnStatement(factory.createTrue())]),
+      factory.createPropertyAssignment(
+        'importAsync',
+        factory.createArrowFunction(undefined, undefined, [], undefined, undefined, resolvedPromise()),
+      ),
+      createMethod(factory, 'requireAsync', [factory.createReturnStatement(resolvedPromise())]),
+      createMethod(factory, 'requireSync', [factory.createReturnStatement(moduleNamespace)]),
+      createResolveMethod(factory, moduleSpecifier),
+    ],
+    true,
+  );
+}
+
+/**
+ * `require.resolveWeak()` gives the webpack module id without adding the module to the chunk, and in Node without
+ * webpack `require.resolve()` gives the path of the module
+ */
+function createResolveMethod(factory: NodeFactory, moduleSpecifier: string) {
+  const requireResolveWeak = () =>
+    factory.createPropertyAccessExpression(factory.createIdentifier('require'), 'resolveWeak');
+  return createMethod(factory, 'resolve', [
+    factory.createIfStatement(
+      requireResolveWeak(),
+      createReturnBlock(
+        factory,
+        factory.createCallExpression(requireResolveWeak(), undefined, [factory.createStringLiteral(moduleSpecifier)]),
+      ),
+    ),
+    factory.createReturnStatement(
+      factory.createCallExpression(createEval(factory, 'require.resolve'), undefined, [
+        factory.createStringLiteral(moduleSpecifier),
+      ]),
+    ),
+  ]);
+}
+
+function createMethod(factory: NodeFactory, name: string, statements: ts.Statement[]) {
+  return factory.createPropertyAssignment(
+    name,
+    factory.createFunctionExpression(
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      [],
+      undefined,
+      factory.createBlock(statements, true),
+    ),
+  );
+}
+
+function createReturnBlock(factory: NodeFactory, expression: ts.Expression) {
+  return factory.createBlock([factory.createReturnStatement(expression)], true);
+}
+
+function createConstStatement(factory: NodeFactory, name: ts.Identifier, initializer: ts.Expression) {
+  return factory.createVariableStatement(
+    undefined,
+    factory.createVariableDeclarationList(
+      [factory.createVariableDeclaration(name, undefined, undefined, initializer)],
+      ts.NodeFlags.Const,
+    ),
+  );
+}
+
+/**
+ * `this.method()`
+ */
+function callThis(factory: NodeFactory, method: string) {
+  return factory.createCallExpression(
+    factory.createPropertyAccessExpression(factory.createThis(), method),
+    undefined,
+    [],
+  );
+}
+
+/**
+ * `typeof name !== "undefined"`, which doesn't throw for globals that don't exist
+ */
+function isDefined(factory: NodeFactory, name: ts.Identifier) {
+  return factory.createBinaryExpression(
+    factory.createTypeOfExpression(name),
+    ts.SyntaxKind.ExclamationEqualsEqualsToken,
+    factory.createStringLiteral('undefined'),
+  );
+}
+
+/**
+ * `eval("module.require")`, which keeps webpack from trying to bundle what's required in Node
+ */
+function createEval(factory: NodeFactory, code: string) {
+  return factory.createCallExpression(factory.createIdentifier('eval'), undefined, [factory.createStringLiteral(code)]);
+}
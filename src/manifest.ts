@@ -0,0 +1,85 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+
+/**
+ * Lists the components to lazy load as export names keyed by the file that exports them, such as
+ * `{ "src/Checkout.tsx": ["default", "CheckoutSummary"] }`. Relative file names are relative to the
+ * directory of the tsconfig, and the extension is optional.
+ */
+export type LazyComponentsManifest = { [fileName: string]: string[] };
+
+export type NormalizedManifest = {
+  rootDir: string;
+  /**
+   * Export names keyed by absolute file names without extensions
+   */
+  entries: { [moduleKey: string]: string[] };
+};
+
+export function loadManifest(manifest: string | LazyComponentsManifest, rootDir: string): NormalizedManifest {
+  const entries: LazyComponentsManifest =
+    typeof manifest === 'string' ? JSON.parse(fs.readFileSync(path.resolve(rootDir, manifest)).toString()) : manifest;
+
+  const normalized: NormalizedManifest = { rootDir, entries: {} };
+  for (const fileName of Object.keys(entries)) {
+    const key = getModuleKey(fileName, rootDir);
+    normalized.entries[key] = (normalized.entries[key] || []).concat(entries[fileName]);
+  }
+  return normalized;
+}
+
+/**
+ * The directory that relative paths in options like `lazyComponentsManifest` and `entryPoints` are
+ * relative to, which is the directory of the tsconfig if there is one.
+ */
+export function getProjectRootDir(program: ts.Program | undefined) {
+  if (!program) {
+    return process.cwd();
+  }
+  const configFilePath = program.getCompilerOptions().configFilePath;
+  return typeof configFilePath === 'string' ? path.dirname(configFilePath) : program.getCurrentDirectory();
+}
+
+/**
+ * Returns true if any of the passed exports is listed. A component can be listed under more than one
+ * file, like the module it's imported from and the module that declares it.
+ */
+export function isInManifest(manifest: NormalizedManifest, exports: { fileName?: string; exportName: string }[]) {
+  return exports.some(e => {
+    const exportNames = e.fileName && manifest.entries[getModuleKey(e.fileName, manifest.rootDir)];
+    return !!exportNames && exportNames.indexOf(e.exportName) !== -1;
+  });
+}
+
+/**
+ * Returns the entries that don't match an export of a file in the program, as `fileName#exportName`.
+ */
+export function getStaleManifestEntries(manifest: NormalizedManifest, program: ts.Program) {
+  const { rootDir, entries } = manifest;
+  const typeChecker = program.getTypeChecker();
+  const sourceFiles: { [moduleKey: string]: ts.SourceFile } = {};
+  for (const sourceFile of program.getSourceFiles()) {
+    sourceFiles[getModuleKey(sourceFile.fileName, rootDir)] = sourceFile;
+  }
+
+  const staleEntries: string[] = [];
+  for (const moduleKey of Object.keys(entries)) {
+    const sourceFile = sourceFiles[moduleKey];
+    const moduleSymbol = sourceFile && typeChecker.getSymbolAtLocation(sourceFile);
+    const exportNames = moduleSymbol ? typeChecker.getExportsOfModule(moduleSymbol).map(e => e.name) : [];
+    for (const exportName of entries[moduleKey]) {
+      if (exportNames.indexOf(exportName) === -1) {
+        staleEntries.push(path.relative(rootDir, moduleKey).replace(/\\/g, '/') + '#' + exportName);
+      }
+    }
+  }
+  return staleEntries;
+}
+
+function getModuleKey(fileName: string, rootDir: string) {
+  return path
+    .resolve(rootDir, fileName)
+    .replace(/\\/g, '/')
+    .replace(/(\.d)?\.(tsx?|jsx?)$/, '');
+}
@@ -0,0 +1,72 @@
+import * as ts from 'typescript';
+
+/**
+ * A comment in front of an import declaration or one of its bindings that overrides the options for it:
+ * - `/* @lazy-import: sync *\/` never rewrites it
+ * - `/* @lazy-import: lazy *\/` rewrites it no matter what options like `onlyRewriteDefaultExports` or
+ *   `shouldRewrite()` say, as long as it's a component that is used in a way that allows it
+ * - `chunk=checkout` after `lazy` sets the webpack chunk name
+ */
+export type ImportPragma = {
+  mode: 'sync' | 'lazy';
+  chunkName?: string;
+};
+
+const pragmaRegExp = /@lazy-import:\s*(sync|lazy)\b([^*\n]*)/;
+const chunkNameRegExp = /\bchunk=([^\s*]+)/;
+
+/**
+ * Returns the pragma in the comments leading up to a node, the last one if there's more than one
+ */
+export function getImportPragma(node: ts.Node, sourceFile: ts.SourceFile): ImportPragma | undefined {
+  let pragma: ImportPragma | undefined;
+  const ranges = ts.isImportDeclaration(node)
+    ? ts.getLeadingCommentRanges(sourceFile.text, node.pos) || []
+    : getBindingCommentRanges(node, sourceFile);
+  for (const range of ranges) {
+    const match = pragmaRegExp.exec(sourceFile.text.substring(range.pos, range.end));
+    if (match) {
+      const chunkName = chunkNameRegExp.exec(match[2]);
+      pragma = { mode: match[1] as ImportPragma['mode'] };
+      if (pragma.mode === 'lazy' && chunkName) {
+        pragma.chunkName = chunkName[1];
+      }
+    }
+  }
+  return pragma;
+}
+
+/**
+ * The comments of a binding in an import declaration. TypeScript counts a comment on the same line as the previous
+ * token as a trailing comment of that token, so which binding it belongs to depends on where it is:
+ * - `import { /* @lazy-import: sync *\/ Hero }`: right after `{` or `import`, it's in front of `Hero`
+ * - `import { Footer, /* @lazy-import: sync *\/ Hero }`: after a comma, it's in front of `Hero` if `Hero` is on
+ *   the same line
+ * - `Hero, // @lazy-import: sync` at the end of a line: after the comma that follows `Hero`, it belongs to `Hero`
+ */
+function getBindingCommentRanges(node: ts.Node, sourceFile: ts.SourceFile) {
+  const text = sourceFile.text;
+  const start = node.getStart(sourceFile);
+  const isAfterComma = text[node.pos - 1] === ',';
+  const ranges = (ts.getTrailingCommentRanges(text, node.pos) || []).filter(
+    range => !isAfterComma || !hasLineBreak(text, range.end, start),
+  );
+  ranges.push(...(ts.getLeadingCommentRanges(text, node.pos) || []));
+  ranges.push(...(ts.getTrailingCommentRanges(text, node.end) || []));
+
+  const scanner = ts.createScanner(ts.ScriptTarget.Latest, true, sourceFile.languageVariant, text, undefined, node.end);
+  if (scanner.scan() === ts.SyntaxKind.CommaToken) {
+    const commaEnd = scanner.getTextPos();
+    const nextTokenIsBinding = scanner.scan() !== ts.SyntaxKind.CloseBraceToken;
+    ranges.push(
+      ...(ts.getTrailingCommentRanges(text, commaEnd) || []).filter(
+        range => !nextTokenIsBinding || hasLineBreak(text, range.end, scanner.getTokenPos()),
+      ),
+    );
+  }
+  return ranges;
+}
+
+function hasLineBreak(text: string, pos: number, end: number) {
+  return /[\r\n]/.test(text.substring(pos, end));
+}
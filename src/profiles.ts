@@ -0,0 +1,171 @@
+import * as ts from 'typescript';
+import { NodeFactory } from './factory';
+
+/**
+ * What the transformer needs to know about a UI framework to lazy load its components
+ */
+export type FrameworkProfile = {
+  /**
+   * The module that the wrapper and the Suspense component are imported from. Imports of it are never rewritten.
+   */
+  moduleName: string;
+  /**
+   * The export that turns a loader into a lazy component, like `lazy` or `defineAsyncComponent`
+   */
+  lazyExportName: string;
+  /**
+   * The component that `Options.suspenseBoundaries` renders around lazy components, with a `fallback` prop.
+   * `null` if the framework doesn't need one.
+   */
+  suspenseExportName: string | null;
+  /**
+   * Returns true for the type of a value that can be rendered as a component
+   */
+  isComponentType: (type: ts.Type, typeChecker: ts.TypeChecker) => boolean;
+  /**
+   * Creates what the loader of a named export resolves to, given the module object `m`. Like `{ default: m.X }`
+   * for `React.lazy()`, which only accepts modules with a default export.
+   */
+  createNamedExportResult: (factory: NodeFactory, m: ts.Identifier, exportName: string) => ts.Expression;
+};
+
+export type FrameworkName = 'react' | 'preact' | 'solid' | 'vue';
+
+const createDefaultExportObject = (factory: NodeFactory, m: ts.Identifier, exportName: string) =>
+  factory.createParenthesizedExpression(
+    factory.createObjectLiteralExpression([
+      factory.createPropertyAssignment('default', factory.createPropertyAccessExpression(m, exportName)),
+    ]),
+  );
+
+export const frameworkProfiles: { [name in FrameworkName]: FrameworkProfile } = {
+  react: {
+    moduleName: 'react',
+    lazyExportName: 'lazy',
+    suspenseExportName: 'Suspense',
+    isComponentType: (type, typeChecker) => isReactElementType(type, typeChecker, ['ReactElement', 'ReactPortal']),
+    createNamedExportResult: createDefaultExportObject,
+  },
+  preact: {
+    moduleName: 'preact/compat',
+    lazyExportName: 'lazy',
+    suspenseExportName: 'Suspense',
+    isComponentType: (type, typeChecker) => isReactElementType(type, typeChecker, ['VNode']),
+    createNamedExportResult: createDefaultExportObject,
+  },
+  solid: {
+    moduleName: 'solid-js',
+    lazyExportName: 'lazy',
+    suspenseExportName: 'Suspense',
+    // Components are functions of props that return `JSX.Element`, and there are no component classes
+    isComponentType: (type, typeChecker) =>
+      type
+        .getCallSignatures()
+        .some(s => s.parameters.length <= 1 && isJsxElementType(typeChecker.getReturnTypeOfSignature(s), [])),
+    createNamedExportResult: createDefaultExportObject,
+  },
+  vue: {
+    moduleName: 'vue',
+    lazyExportName: 'defineAsyncComponent',
+    suspenseExportName: null,
+    isComponentType: isVueComponentType,
+    // `defineAsyncComponent()` accepts the component itself
+    createNamedExportResult: (factory, m, exportName) => factory.createPropertyAccessExpression(m, exportName),
+  },
+};
+
+export function getFrameworkProfile(framework: FrameworkName | FrameworkProfile) {
+  return typeof framework === 'string' ? frameworkProfiles[framework] : framework;
+}
+
+/**
+ * The transformer only looks at files that might render components. With the automatic JSX runtime those don't
+ * have to import the framework, so any file with JSX counts.
+ */
+export function mightRenderComponents(sourceFile: ts.SourceFile, profile: FrameworkProfile) {
+  const importsFramework = sourceFile.statements.some(
+    s => ts.isImportDeclaration(s) && (s.moduleSpecifier as ts.StringLiteral).text === profile.moduleName,
+  );
+  return (
+    (importsFramework || sourceFile.languageVariant === ts.LanguageVariant.JSX) &&
+    sourceFile.fileName.indexOf('.d.ts') === -1
+  );
+}
+
+export function isComponentType(exportedSymbol: ts.Symbol, typeChecker: ts.TypeChecker, profile: FrameworkProfile) {
+  if (exportedSymbol.valueDeclaration) {
+    const type = typeChecker.getTypeOfSymbolAtLocation(exportedSymbol, exportedSymbol.valueDeclaration);
+    return profile.isComponentType(type, typeChecker);
+  }
+  return false;
+}
+
+/**
+ * Returns true for any value that React can render as an element type, which means
+ * `React.memo()`/`React.forwardRef()`/`React.lazy()` results, component classes and
+ * function components (including values typed as `React.FC` or `React.ComponentType`).
+ */
+function isReactElementType(type: ts.Type, typeChecker: ts.TypeChecker, elementNames: string[]): boolean {
+  if (type.isUnion()) {
+    return type.types.every(t => isReactElementType(t, typeChecker, elementNames));
+  }
+
+  // ExoticComponent, which is what `React.memo()`, `React.forwardRef()` and `React.lazy()` returns
+  if (type.getProperty('$$typeof') && type.getCallSignatures().length) {
+    return true;
+  }
+
+  // ComponentClass, no matter if it extends `React.Component`, `Component` or `PureComponent`
+  if (type.getConstructSignatures().some(s => isComponentInstanceType(typeChecker.getReturnTypeOfSignature(s)))) {
+    return true;
+  }
+
+  // FunctionComponent, props and context
+  return type
+    .getCallSignatures()
+    .some(s => s.parameters.length <= 2 && isJsxElementType(typeChecker.getReturnTypeOfSignature(s), elementNames));
+}
+
+function isComponentInstanceType(type: ts.Type) {
+  return !!type.getProperty('render') && !!type.getProperty('props') && !!type.getProperty('setState');
+}
+
+/**
+ * `JSX.Element` or one of `elementNames`, also when `JSX.Element` is an alias of a union like in SolidJS
+ */
+function isJsxElementType(type: ts.Type, elementNames: string[]): boolean {
+  if (type.aliasSymbol && isJsxElementSymbol(type.aliasSymbol)) {
+    return true;
+  }
+  if (type.isUnion()) {
+    // `JSX.Element | null` and friends, as long as at least one of them is an element
+    const elementTypes = type.types.filter(t => !(t.flags & (ts.TypeFlags.Null | ts.TypeFlags.Undefined)));
+    return elementTypes.length > 0 && elementTypes.every(t => isJsxElementType(t, elementNames));
+  }
+
+  const symbol = type.getSymbol();
+  if (!symbol) {
+    return false;
+  }
+  return elementNames.indexOf(symbol.escapedName as string) !== -1 || isJsxElementSymbol(symbol);
+}
+
+function isJsxElementSymbol(symbol: ts.Symbol) {
+  const parentSymbol = (symbol as any).parent as ts.Symbol | undefined;
+  return symbol.escapedName === 'Element' && !!parentSymbol && parentSymbol.escapedName === 'JSX';
+}
+
+/**
+ * `defineComponent()` results, which are constructors of instances with `$props`, and functional components
+ */
+function isVueComponentType(type: ts.Type, typeChecker: ts.TypeChecker): boolean {
+  if (type.isUnion()) {
+    return type.types.every(t => isVueComponentType(t, typeChecker));
+  }
+  if (type.getConstructSignatures().some(s => !!typeChecker.getReturnTypeOfSignature(s).getProperty('$props'))) {
+    return true;
+  }
+  return type
+    .getCallSignatures()
+    .some(s => s.parameters.length <= 2 && isJsxElementType(typeChecker.getReturnTypeOfSignature(s), ['VNode']));
+}
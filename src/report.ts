@@ -0,0 +1,134 @@
+import * as fs from 'fs';
+import * as ts from 'typescript';
+import { UsageRenderCondition } from './conditions';
+
+/**
+ * Why a binding that looks like a component wasn't rewritten:
+ * - `syncPragma`: the import or the binding has a `@lazy-import: sync` comment
+ * - `excludedModule`: the module doesn't match `Options.includeModules` or matches `Options.excludeModules`
+ * - `shouldRewriteReturnedFalse`: `Options.shouldRewrite()` returned false, or a list of names without the binding
+ * - `onlyDefaultExports`: it's a named import and `Options.onlyRewriteDefaultExports` is set
+ * - `notARoute`: `Options.onlyRewriteRoutes` is set and the component isn't mounted as a route
+ * - `renderedUnconditionally`: `Options.onlyRewriteConditionallyRendered` is set and a usage isn't behind a condition,
+ *   see `renderConditions`
+ * - `notAComponent`: the type of the export isn't something that React can render
+ * - `unsafeUsage`: it's used in a way that isn't listed in `Options.allowedUsages`, or not used as a value at all
+ * - `notInManifest`: `Options.lazyComponentsManifest` is set and doesn't list the component
+ * - `belowMinimumWeight`: lazy loading the component would move less code than `Options.minimumModuleWeight` out of the bundle
+ * - `loadedSynchronously`: the module is loaded synchronously anyway and `Options.synchronouslyLoadedModules` is `skip`
+ * - `circularImport`: the module imports the importing file, see `circularImportPath`, and `Options.circularImports` is `skip`
+ * - `preloadNameTaken`: `Options.preload` is `const` and the file already declares the name of the `preloadX()` function
+ * - `importCannotBeRemoved`: other things are imported as well and `Options.onlyRewriteIfImportCanBeRemoved` is set
+ */
+export type SkipReason =
+  | 'syncPragma'
+  | 'excludedModule'
+  | 'shouldRewriteReturnedFalse'
+  | 'onlyDefaultExports'
+  | 'notARoute'
+  | 'renderedUnconditionally'
+  | 'notAComponent'
+  | 'unsafeUsage'
+  | 'notInManifest'
+  | 'belowMinimumWeight'
+  | 'loadedSynchronously'
+  | 'circularImport'
+  | 'preloadNameTaken'
+  | 'importCannotBeRemoved';
+
+export type ImportReport = {
+  moduleSpecifier: string;
+  /**
+   * The file that the import declaration resolves to, if it could be resolved
+   */
+  resolvedFileName: string | undefined;
+  rewritten: boolean;
+  components: {
+    name: string;
+    exportName: string;
+    /**
+     * The file that the component is lazy loaded from, which differs from the import declaration's
+     * file when `Options.importFromDefiningModule` is used
+     */
+    resolvedFileName: string | undefined;
+    rewritten: boolean;
+    skipReason?: SkipReason;
+    /**
+     * The weight of the code that lazy loading the component moves out of the bundle of the current file,
+     * if `Options.minimumModuleWeight` is set
+     */
+    weight?: number;
+    /**
+     * A file that imports the module synchronously, if `Options.synchronouslyLoadedModules` is set and it's
+     * loaded synchronously anyway
+     */
+    loadedSynchronouslyBy?: string;
+    /**
+     * The chain of imports that leads from the importing file through the lazy module back to the importing
+     * file, if there is one
+     */
+    circularImportPath?: string[];
+    /**
+     * How each usage of the component is rendered, if `Options.onlyRewriteConditionallyRendered` is set
+     */
+    renderConditions?: UsageRenderCondition[];
+  }[];
+};
+
+export type Report = { [fileName: string]: ImportReport[] };
+
+type Options = {
+  onRewrite: (importReport: ImportReport, currentFile: string) => void;
+  onSkip: (importReport: ImportReport, currentFile: string) => void;
+  reportFile: string | null;
+};
+
+type Candidate = {
+  name: string;
+  exportName: string;
+  moduleSpecifier: ts.StringLiteral;
+  resolvedFileName: string | undefined;
+  skipReason?: SkipReason;
+  weight?: number;
+  loadedSynchronouslyBy?: string;
+  circularImportPath?: string[];
+  renderConditions?: UsageRenderCondition[];
+};
+
+export function createImportReport(
+  importDecl: ts.ImportDeclaration,
+  resolvedFileName: string | undefined,
+  candidates: Candidate[],
+): ImportReport {
+  return {
+    moduleSpecifier: (importDecl.moduleSpecifier as ts.StringLiteral).text,
+    resolvedFileName,
+    rewritten: candidates.some(c => !c.skipReason),
+    components: candidates.map(c => ({
+      name: c.name,
+      exportName: c.exportName,
+      resolvedFileName: c.resolvedFileName,
+      rewritten: !c.skipReason,
+      skipReason: c.skipReason,
+      weight: c.weight,
+      loadedSynchronouslyBy: c.loadedSynchronouslyBy,
+      circularImportPath: c.circularImportPath,
+      renderConditions: c.renderConditions,
+    })),
+  };
+}
+
+export function addFileReport(fileName: string, importReports: ImportReport[], options: Options, report: Report) {
+  for (const importReport of importReports) {
+    if (importReport.rewritten) {
+      options.onRewrite(importReport, fileName);
+    } else {
+      options.onSkip(importReport, fileName);
+    }
+  }
+
+  if (options.reportFile) {
+    report[fileName] = importReports;
+    fs.writeFileSync(options.reportFile, JSON.stringify(report, null, 2));
+  }
+}
@@ -0,0 +1,86 @@
+import * as ts from 'typescript';
+import { Usage } from './usages';
+
+/**
+ * What `Options.onlyRewriteRoutes` looks for, from `Options.routeElementNames`, `Options.routeProps` and
+ * `Options.routeConfigNames`
+ */
+export type RouteNames = {
+  elementNames: string[];
+  props: string[];
+  configNames: string[];
+};
+
+/**
+ * Returns true if a usage mounts a component as a route, either on a route element or in a route config:
+ * - `<Route component={X} />`
+ * - `<Route element={<X />} />`
+ * - `<Route render={() => <X />} />`
+ * - `const routes = [{ path: '/x', component: X }]`, also in nested arrays like `children: [...]`
+ */
+export function isRouteUsage(usage: Usage, names: RouteNames) {
+  let node: ts.Node = usage.node;
+  if (usage.kind === 'jsxTag') {
+    const parent = usage.node.parent;
+    if (ts.isJsxClosingElement(parent)) {
+      return false;
+    }
+    node = ts.isJsxOpeningElement(parent) ? parent.parent : parent;
+  }
+  node = skipParentheses(node);
+  if (ts.isArrowFunction(node.parent) && node.parent.body === node) {
+    node = skipParentheses(node.parent);
+  }
+
+  const parent = node.parent;
+  if (ts.isJsxExpression(parent) && ts.isJsxAttribute(parent.parent)) {
+    const attribute = parent.parent;
+    const element = attribute.parent.parent;
+    return names.props.indexOf(attribute.name.text) !== -1 && isRouteElementName(element.tagName, names);
+  }
+  if (ts.isPropertyAssignment(parent) && parent.initializer === node) {
+    return names.props.indexOf(getPropertyNameText(parent.name)) !== -1 && isInRouteConfig(parent.parent, names);
+  }
+  return false;
+}
+
+/**
+ * `Route` matches both `<Route>` and `<ReactRouter.Route>`
+ */
+function isRouteElementName(tagName: ts.JsxTagNameExpression, names: RouteNames) {
+  const name = ts.isPropertyAccessExpression(tagName) ? tagName.name : tagName;
+  return ts.isIdentifier(name) && names.elementNames.indexOf(name.text) !== -1;
+}
+
+/**
+ * Walks up from a route object through the arrays and route objects it's nested in, until it reaches the variable
+ * or the property that the config is assigned to
+ */
+function isInRouteConfig(routeObject: ts.ObjectLiteralExpression, names: RouteNames) {
+  let isInArray = false;
+  for (let node: ts.Node = routeObject.parent; node && !ts.isSourceFile(node); node = node.parent) {
+    if (ts.isArrayLiteralExpression(node)) {
+      isInArray = true;
+    } else if (ts.isVariableDeclaration(node)) {
+      return isInArray && ts.isIdentifier(node.name) && names.configNames.indexOf(node.name.text) !== -1;
+    } else if (ts.isPropertyAssignment(node)) {
+      if (isInArray && names.configNames.indexOf(getPropertyNameText(node.name)) !== -1) {
+        return true;
+      }
+    } else if (!ts.isObjectLiteralExpression(node) && !ts.isParenthesizedExpression(node) && !ts.isAsExpression(node)) {
+      return false;
+    }
+  }
+  return false;
+}
+
+function skipParentheses(node: ts.Node) {
+  while (ts.isParenthesizedExpression(node.parent)) {
+    node = node.parent;
+  }
+  return node;
+}
+
+function getPropertyNameText(name: ts.PropertyName) {
+  return ts.isIdentifier(name) || ts.isStringLiteral(name) ? name.text : '';
+}
@@ -0,0 +1,69 @@
+/**
+ * Code that the output of the transformer imports, which means that it ends up in the browser bundle and can't
+ * depend on TypeScript or anything else in this package.
+ */
+
+/**
+ * See `Options.retryChunkLoad`
+ */
+export type RetryOptions = {
+  /**
+   * How many times to try loading the module in total
+   */
+  attempts?: number;
+  /**
+   * Milliseconds to wait before the first retry
+   */
+  delay?: number;
+  /**
+   * What the delay is multiplied by for each retry after the first one
+   */
+  backoff?: number;
+  /**
+   * Reload the page when all attempts have failed, since a failing chunk most often means that a new version has
+   * been deployed. To avoid reload loops the page isn't reloaded again if it was reloaded within the last minute,
+   * or at all if session storage isn't available.
+   */
+  reloadOnFailure?: boolean;
+};
+
+const reloadedAtKey = 'ts-transform-import-to-lazy-async-import:reloadedAt';
+const minimumReloadInterval = 60 * 1000;
+
+export function retryImport<T>(load: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const { attempts = 3, delay = 1000, backoff = 2, reloadOnFailure = false } = options;
+  return load().catch(error => {
+    if (attempts > 1) {
+      return wait(delay).then(() =>
+        retryImport(load, { attempts: attempts - 1, delay: delay * backoff, backoff, reloadOnFailure }),
+      );
+    }
+    if (reloadOnFailure && reloadPage()) {
+      // Never settles, since the page is going away
+      return new Promise<T>(() => {});
+    }
+    throw error;
+  });
+}
+
+function wait(milliseconds: number) {
+  return new Promise(resolve => setTimeout(resolve, milliseconds));
+}
+
+function reloadPage() {
+  if (typeof window === 'undefined') {
+    return false;
+  }
+  try {
+    const reloadedAt = Number(window.sessionStorage.getItem(reloadedAtKey));
+    if (reloadedAt && Date.now() - reloadedAt < minimumReloadInterval) {
+      return false;
+    }
+    window.sessionStorage.setItem(reloadedAtKey, String(Date.now()));
+  } catch (e) {
+    // Without session storage there's no way to tell if we'd end up in a reload loop
+    return false;
+  }
+  window.location.reload();
+  return true;
+}
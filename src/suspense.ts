@@ -0,0 +1,119 @@
+import * as ts from 'typescript';
+import { NodeFactory } from './factory';
+import { Usage } from './usages';
+
+export type SuspenseBoundaries = 'none' | 'usage' | 'root';
+
+type JsxNode = ts.JsxElement | ts.JsxSelfClosingElement | ts.JsxFragment;
+
+/**
+ * Returns the JSX nodes that should be wrapped in a Suspense boundary for the passed usages
+ * of lazy components.
+ */
+export function getSuspenseTargets(
+  usages: Usage[],
+  boundaries: SuspenseBoundaries,
+  skipUsagesInsideSuspense: boolean,
+): ts.Node[] {
+  const targets: ts.Node[] = [];
+  for (const usage of usages) {
+    const element = getRenderedElement(usage);
+    if (!element) {
+      continue;
+    }
+
+    if (skipUsagesInsideSuspense && isInsideSuspense(element)) {
+      continue;
+    }
+
+    const target = boundaries === 'root' ? getJsxRoot(element) : element;
+    if (targets.indexOf(target) === -1) {
+      targets.push(target);
+    }
+  }
+  return targets;
+}
+
+export function wrapInSuspense(
+  node: JsxNode,
+  fallback: ts.Expression,
+  tagName: ts.JsxTagNameExpression,
+  factory: NodeFactory,
+) {
+  return factory.createJsxElement(
+    factory.createJsxOpeningElement(
+      tagName,
+      undefined,
+      factory.createJsxAttributes([
+        factory.createJsxAttribute(
+          factory.createIdentifier('fallback'),
+          factory.createJsxExpression(undefined, fallback),
+        ),
+      ]),
+    ),
+    [node],
+    factory.createJsxClosingElement(tagName),
+  );
+}
+
+/**
+ * Returns true if a lazy component is rendered inside a Suspense boundary in its own file, either an
+ * existing one or one that is inserted around one of `suspenseTargets`.
+ */
+export function isRenderedInsideSuspense(usage: Usage, suspenseTargets: ts.Node[]) {
+  const element = getRenderedElement(usage);
+  if (!element) {
+    return true;
+  }
+  for (let node: ts.Node = element; node && !ts.isSourceFile(node); node = node.parent) {
+    if (suspenseTargets.indexOf(node) !== -1) {
+      return true;
+    }
+  }
+  return isInsideSuspense(element);
+}
+
+/**
+ * The element that a `jsxTag` usage renders, once per element since closing tags are left out
+ */
+function getRenderedElement(usage: Usage) {
+  const parent = usage.node.parent;
+  if (usage.kind !== 'jsxTag' || ts.isJsxClosingElement(parent)) {
+    return undefined;
+  }
+  return ts.isJsxOpeningElement(parent) ? parent.parent : (parent as ts.JsxSelfClosingElement);
+}
+
+/**
+ * Finds the outermost JSX node that the element is part of, without leaving the function
+ * that the element is rendered in.
+ */
+function getJsxRoot(element: JsxNode) {
+  let root: JsxNode = element;
+  for (
+    let node: ts.Node = element.parent;
+    node && !ts.isFunctionLike(node) && !ts.isSourceFile(node);
+    node = node.parent
+  ) {
+    if (ts.isJsxElement(node) || ts.isJsxSelfClosingElement(node) || ts.isJsxFragment(node)) {
+      root = node;
+    }
+  }
+  return root;
+}
+
+function isInsideSuspense(element: JsxNode) {
+  for (let node: ts.Node = element.parent; node && !ts.isSourceFile(node); node = node.parent) {
+    if (ts.isJsxElement(node) && isSuspenseTagName(node.openingElement.tagName)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function isSuspenseTagName(tagName: ts.JsxTagNameExpression) {
+  return (
+    (ts.isIdentifier(tagName) && tagName.text === 'Suspense') ||
+    (ts.isPropertyAccessExpression(tagName) && tagName.name.text === 'Suspense')
+  );
+}
@@ -0,0 +1,171 @@
+import * as ts from 'typescript';
+
+/**
+ * How an imported binding is referenced in the file that imports it:
+ * - `jsxTag`: `<X />`
+ * - `jsxAttribute`: `<Route component={X} />`
+ * - `propertyAccess`: `X.defaultProps`, `<X.Panel />`
+ * - `callArgument`: `connect()(X)`, `hoistStatics(Y, X)`
+ * - `type`: `React.ComponentProps<typeof X>`
+ * - `other`: everything else, such as `y instanceof X`, `export { X }` or `{ X }`
+ */
+export type UsageKind = 'jsxTag' | 'jsxAttribute' | 'propertyAccess' | 'callArgument' | 'type' | 'other';
+
+export type Usage = {
+  kind: UsageKind;
+  /**
+   * A property access for members of namespace imports, like `Icons.Arrow` in `<Icons.Arrow />`
+   */
+  node: ts.Identifier | ts.PropertyAccessExpression;
+};
+
+export type Usages = { [bindingName: string]: Usage[] };
+
+/**
+ * Finds and classifies all references to the passed import bindings in a source file. Without a type
+ * checker references are found by name, which means that local variables shadowing an import are
+ * counted as references to the import.
+ */
+export function getUsages(
+  sourceFile: ts.SourceFile,
+  bindings: ts.Identifier[],
+  typeChecker: ts.TypeChecker | undefined,
+): Usages {
+  const usages: Usages = {};
+  const bindingSymbols: { [bindingName: string]: ts.Symbol | undefined } = {};
+  for (const binding of bindings) {
+    usages[binding.text] = [];
+    bindingSymbols[binding.text] = typeChecker && typeChecker.getSymbolAtLocation(binding);
+  }
+
+  const visit = (node: ts.Node) => {
+    if (ts.isImportDeclaration(node)) {
+      return;
+    }
+    if (
+      ts.isIdentifier(node) &&
+      usages.hasOwnProperty(node.text) &&
+      (typeChecker ? isReferenceTo(node, bindingSymbols[node.text], typeChecker) : isReference(node))
+    ) {
+      usages[node.text].push({ kind: getUsageKind(node), node });
+    }
+    ts.forEachChild(node, visit);
+  };
+  ts.forEachChild(sourceFile, visit);
+
+  return usages;
+}
+
+/**
+ * `ts.JsxEmit.ReactJSX`, which isn't in the typings of TypeScript 3
+ */
+const JSX_EMIT_REACT_JSX = 4;
+
+/**
+ * JSX counts as using the import that is named like the JSX factory, such as `React` for `React.createElement`,
+ * except with the automatic JSX runtime. TypeScript keeps an import like that even if it's never referenced.
+ */
+export function isUsedByJsx(binding: ts.Identifier, sourceFile: ts.SourceFile, compilerOptions: ts.CompilerOptions) {
+  const { jsx, jsxFactory, reactNamespace } = compilerOptions;
+  const isAutomaticRuntime = jsx !== undefined && jsx >= JSX_EMIT_REACT_JSX;
+  const jsxFactoryNamespace = jsxFactory ? jsxFactory.split('.')[0] : reactNamespace || 'React';
+  return (
+    !isAutomaticRuntime && sourceFile.languageVariant === ts.LanguageVariant.JSX && binding.text === jsxFactoryNamespace
+  );
+}
+
+/**
+ * Returns the usages of the members of a namespace import with a leading uppercase char, keyed
+ * by `Namespace.Member`. Uses of the namespace that aren't property accesses aren't included.
+ */
+export function getNamespaceMemberUsages(namespaceName: string, namespaceUsages: Usage[]): Usages {
+  const usages: Usages = {};
+  for (const usage of namespaceUsages) {
+    const parent = usage.node.parent;
+    if (usage.kind !== 'propertyAccess' || !ts.isPropertyAccessExpression(parent)) {
+      continue;
+    }
+    const memberName = parent.name.text;
+    if (memberName[0] === memberName[0].toUpperCase()) {
+      const key = namespaceName + '.' + memberName;
+      usages[key] = (usages[key] || []).concat({ kind: getUsageKind(parent), node: parent });
+    }
+  }
+  return usages;
+}
+
+function isReferenceTo(identifier: ts.Identifier, bindingSymbol: ts.Symbol | undefined, typeChecker: ts.TypeChecker) {
+  if (!bindingSymbol) {
+    return false;
+  }
+  if (ts.isShorthandPropertyAssignment(identifier.parent)) {
+    return typeChecker.getShorthandAssignmentValueSymbol(identifier.parent) === bindingSymbol;
+  }
+  const symbol = typeChecker.getSymbolAtLocation(identifier);
+  if (!symbol) {
+    return false;
+  }
+  // JSX tag names resolve to the symbol the import points to rather than the import itself
+  return symbol === bindingSymbol || symbol === typeChecker.getAliasedSymbol(bindingSymbol);
+}
+
+/**
+ * Returns false for identifiers that are names of things rather than references, like `y.X` and `{ X: y }`.
+ */
+function isReference(identifier: ts.Identifier) {
+  const parent = identifier.parent as ts.Node & { name?: ts.Node; propertyName?: ts.Node };
+  if (ts.isShorthandPropertyAssignment(parent)) {
+    return true;
+  }
+  if (ts.isExportSpecifier(parent)) {
+    return (parent.propertyName || parent.name) === identifier;
+  }
+  if (ts.isQualifiedName(parent)) {
+    return parent.left === identifier;
+  }
+  return parent.name !== identifier && parent.propertyName !== identifier;
+}
+
+function getUsageKind(identifier: ts.Identifier | ts.PropertyAccessExpression): UsageKind {
+  const parent = identifier.parent;
+  if (isInTypePosition(identifier)) {
+    return 'type';
+  }
+  if (
+    (ts.isJsxOpeningElement(parent) || ts.isJsxSelfClosingElement(parent) || ts.isJsxClosingElement(parent)) &&
+    parent.tagName === identifier
+  ) {
+    return 'jsxTag';
+  }
+  if (ts.isPropertyAccessExpression(parent) && parent.expression === identifier) {
+    return 'propertyAccess';
+  }
+  if (ts.isJsxExpression(parent) && ts.isJsxAttribute(parent.parent)) {
+    return 'jsxAttribute';
+  }
+  if (
+    (ts.isCallExpression(parent) || ts.isNewExpression(parent)) &&
+    parent.arguments &&
+    parent.arguments.indexOf(identifier) !== -1
+  ) {
+    return 'callArgument';
+  }
+  return 'other';
+}
+
+function isInTypePosition(identifier: ts.Identifier | ts.PropertyAccessExpression) {
+  for (let node: ts.Node = identifier.parent; node && !ts.isSourceFile(node); node = node.parent) {
+    if (ts.isExpressionWithTypeArguments(node)) {
+      // `class X extends Y` uses Y as a value while `implements Y` doesn't
+      return !(
+        ts.isHeritageClause(node.parent) &&
+        node.parent.token === ts.SyntaxKind.ExtendsKeyword &&
+        ts.isClassLike(node.parent.parent)
+      );
+    }
+    if (ts.isTypeNode(node)) {
+      return true;
+    }
+  }
+  return false;
+}
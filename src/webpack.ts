@@ -0,0 +1,69 @@
+import * as path from 'path';
+import * as ts from 'typescript';
+
+export type WebpackMode = 'lazy' | 'lazy-once' | 'eager' | 'weak';
+
+export type WebpackMagicComments = {
+  webpackChunkName?: string | null;
+  webpackPrefetch?: boolean;
+  webpackPreload?: boolean;
+  webpackMode?: WebpackMode | null;
+};
+
+/**
+ * Derives a chunk name from the path of a module relative to the project root, so `components/Dialog.tsx` becomes
+ * `components-Dialog` and `components/checkout/index.ts` becomes `components-checkout`. Relative module specifiers
+ * that couldn't be resolved are resolved against the importing file, and packages keep their name.
+ */
+export function getDefaultChunkName(modulePath: string, currentFile: string, rootDir: string) {
+  let relativePath = modulePath;
+  if (/^\.\.?([\\/]|$)/.test(modulePath)) {
+    relativePath = path.relative(rootDir, path.resolve(rootDir, path.dirname(currentFile), modulePath));
+  } else if (path.isAbsolute(modulePath)) {
+    relativePath = path.relative(rootDir, modulePath);
+  }
+  const withoutExtension = removeExtension(relativePath).replace(/\/index$/, '');
+  return withoutExtension
+    .split('/')
+    .filter(segment => segment && segment !== '.' && segment !== '..' && segment !== 'node_modules')
+    .join('-')
+    .replace(/^@/, '')
+    .replace(/[^\w-]/g, '-');
+}
+
+/**
+ * The file name of a module without its extension, or the directory name for `index` files, so
+ * `./components/Dialog.tsx` becomes `Dialog` and `./components/checkout/index.ts` becomes `checkout`.
+ */
+export function getModuleBaseName(modulePath: string) {
+  const withoutExtension = removeExtension(modulePath);
+  const name = path.posix.basename(withoutExtension);
+  return name === 'index' ? path.posix.basename(path.posix.dirname(withoutExtension)) : name;
+}
+
+function removeExtension(modulePath: string) {
+  return modulePath.replace(/\\/g, '/').replace(/(\.d)?\.(tsx?|jsx?)$/, '');
+}
+
+/**
+ * Adds webpack magic comments such as `webpackChunkName` in front of the module specifier of an `import()` call.
+ */
+export function addWebpackMagicComments<T extends ts.Node>(node: T, comments: WebpackMagicComments) {
+  const texts: string[] = [];
+  if (comments.webpackChunkName) {
+    texts.push(`webpackChunkName: ${JSON.stringify(comments.webpackChunkName)}`);
+  }
+  if (comments.webpackPrefetch) {
+    texts.push('webpackPrefetch: true');
+  }
+  if (comments.webpackPreload) {
+    texts.push('webpackPreload: true');
+  }
+  if (comments.webpackMode) {
+    texts.push(`webpackMode: ${JSON.stringify(comments.webpackMode)}`);
+  }
+  for (const text of texts) {
+    ts.addSyntheticLeadingComment(node, ts.SyntaxKind.MultiLineCommentTrivia, ` ${text} `, false);
+  }
+  return node;
+}
@@ -1,3 +1,9 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as ts from 'typescript';
+import transformer, { diagnosticCodes, ImportReport, Options, ShouldRewriteContext } from '../src';
+import { retryImport } from '../src/runtime';
 import compile from './compile';
 
 type Code = { [fileName: string]: string };
@@ -182,6 +188,193 @@ export default function (props) {
   expectEqual(expected, compile(code));
 });
 
+test('importing memo and forwardRef components gets rewritten', () => {
+  const code = {
+    'component1.tsx': `
+import * as React from "react";
+export const MyComp1 = React.memo((props: any) => <p>Hello!</p>);
+export const MyComp2 = React.forwardRef<HTMLParagraphElement, any>((props, ref) => <p ref={ref}>Hello!</p>);
+      `,
+    'component2.tsx': `
+import * as React from "react";
+import { MyComp1, MyComp2 } from "./component1";
+export default function (props: any) {
+    return <p><MyComp1 /><MyComp2 /></p>;
+}
+      `,
+  };
+
+  const expected = {
+    'component2.jsx': `
+import * as React from "react";
+const _component1 = () => import("./component1");
+const MyComp1 = React.lazy(() => _component1().then(m => ({ default: m.MyComp1 })));
+const MyComp2 = React.lazy(() => _component1().then(m => ({ default: m.MyComp2 })));
+export default function (props) {
+    return <p><MyComp1 /><MyComp2 /></p>;
+}
+      `,
+  };
+
+  expectEqual(expected, compile(code));
+});
+
+test('importing components typed as React.FC gets rewritten', () => {
+  const code = {
+    'component1.tsx': `
+import * as React from "react";
+export const MyComp1: React.FC<{ text: string }> = props => <p>{props.text}</p>;
+export const MyComp2: React.FunctionComponent = () => null;
+      `,
+    'component2.tsx': `
+import * as React from "react";
+import { MyComp1, MyComp2 } from "./component1";
+export default function (props: any) {
+    return <p><MyComp1 text="Hello!" /><MyComp2 /></p>;
+}
+      `,
+  };
+
+  const expected = {
+    'component2.jsx': `
+import * as React from "react";
+const _component1 = () => import("./component1");
+const MyComp1 = React.lazy(() => _component1().then(m => ({ default: m.MyComp1 })));
+const MyComp2 = React.lazy(() => _component1().then(m => ({ default: m.MyComp2 })));
+export default function (props) {
+    return <p><MyComp1 text="Hello!"/><MyComp2 /></p>;
+}
+      `,
+  };
+
+  expectEqual(expected, compile(code));
+});
+
+test('importing a class component extending a named import of PureComponent gets rewritten', () => {
+  const code = {
+    'component1.tsx': `
+import * as React from "react";
+import { PureComponent } from "react";
+export class MyComp1 extends PureComponent<any> {
+    render() {
+        return <p>Hello!</p>;
+    }
+}
+      `,
+    'component2.tsx': `
+import * as React from "react";
+import { MyComp1 } from "./component1";
+export default function (props: any) {
+    return <p><MyComp1 /></p>;
+}
+      `,
+  };
+
+  const expected = {
+    'component2.jsx': `
+import * as React from "react";
+const MyComp1 = React.lazy(() => import("./component1").then(m => ({ default: m.MyComp1 })));
+export default function (props) {
+    return <p><MyComp1 /></p>;
+}
+      `,
+  };
+
+  expectEqual(expected, compile(code));
+});
+
+test('importing a function component that might return null gets rewritten', () => {
+  const code = {
+    'component1.tsx': `
+import * as React from "react";
+export function MyComp1(props: { visible: boolean }): JSX.Element | null {
+    return props.visible ? <p>Hello!</p> : null;
+}
+      `,
+    'component2.tsx': `
+import * as React from "react";
+import { MyComp1 } from "./component1";
+export default function (props: any) {
+    return <p><MyComp1 visible /></p>;
+}
+      `,
+  };
+
+  const expected = {
+    'component2.jsx': `
+import * as React from "react";
+const MyComp1 = React.lazy(() => import("./component1").then(m => ({ default: m.MyComp1 })));
+export default function (props) {
+    return <p><MyComp1 visible/></p>;
+}
+      `,
+  };
+
+  expectEqual(expected, compile(code));
+});
+
+test('importing components through a barrel file gets rewritten', () => {
+  const code = {
+    'button.tsx': `
+import * as React from "react";
+export default function (props: any) {
+    return <button />;
+}
+      `,
+    'forms.tsx': `
+import * as React from "react";
+export const Input = (props: any) => <input />;
+      `,
+    'label.tsx': `
+import * as React from "react";
+const Label = (props: any) => <label />;
+export default Label;
+      `,
+    'components.ts': `
+import Label from "./label";
+export { default as Button } from "./button";
+export * from "./forms";
+export { Label };
+      `,
+    'component2.tsx': `
+import * as React from "react";
+import { Button, Input, Label } from "./components";
+export default function (props: any) {
+    return <p><Button /><Input /><Label /></p>;
+}
+      `,
+  };
+
+  const expected = {
+    'component2.jsx': `
+import * as React from "react";
+const _components = () => import("./components");
+const Button = React.lazy(() => _components().then(m => ({ default: m.Button })));
+const Input = React.lazy(() => _components().then(m => ({ default: m.Input })));
+const Label = React.lazy(() => _components().then(m => ({ default: m.Label })));
+export default function (props) {
+    return <p><Button /><Input /><Label /></p>;
+}
+      `,
+  };
+
+  expectEqual(expected, compile(code));
+
+  const expectedFromDefiningModule = {
+    'component2.jsx': `
+import * as React from "react";
+const Button = React.lazy(() => import("./button"));
+const Input = React.lazy(() => import("./forms").then(m => ({ default: m.Input })));
+const Label = React.lazy(() => import("./label"));
+export default function (props) {
+    return <p><Button /><Input /><Label /></p>;
+}
+      `,
+  };
+
+  expectEqual(expectedFromDefiningModule, compile(code, { importFromDefiningModule: true }));
+});
+
 test('importing a mix of components and other things gets rewritten correctly', () => {
   const code = {
     'component1.tsx': `
@@ -216,8 +409,9 @@ export const MyConst = "123";
     `,
     'component2.jsx': `
 import * as React from "react";
-const MyComp1 = React.lazy(() => import("./component1"));
-const MyComp2 = React.lazy(() => import("./component1").then(m => ({ default: m.MyComp2 })));
+const _component1 = () => import("./component1");
+const MyComp1 = React.lazy(_component1);
+const MyComp2 = React.lazy(() => _component1().then(m => ({ default: m.MyComp2 })));
 import { MyConst } from "./component1";
 export default function (props) {
     return <p><MyComp1 /><MyComp2 /></p>;
@@ -264,8 +458,9 @@ export const MyConst2 = "123";
       `,
     'component2.jsx': `
 import * as React from "react";
-const MyComp1 = React.lazy(() => import("./component1").then(m => ({ default: m.MyComp1 })));
-const MyComp2 = React.lazy(() => import("./component1").then(m => ({ default: m.MyComp2 })));
+const _component1 = () => import("./component1");
+const MyComp1 = React.lazy(() => _component1().then(m => ({ default: m.MyComp1 })));
+const MyComp2 = React.lazy(() => _component1().then(m => ({ default: m.MyComp2 })));
 import MyConst1, { MyConst2 } from "./component1";
 export default function (props) {
     return <p><MyComp1 /><MyComp2 /></p>;
@@ -276,121 +471,2099 @@ export default function (props) {
   expectEqual(expected, compile(code));
 });
 
-test('can replace call to react', () => {
+test('components used as values outside of JSX are not rewritten', () => {
   const code = {
     'component1.tsx': `
 import * as React from "react";
-export default function (props: any) {
+export function MyComp1(props: any) {
     return <p>Hello!</p>;
 }
 export function MyComp2(props: any) {
     return <p>Hello!</p>;
+}
+export function MyComp3(props: any) {
+    return <p>Hello!</p>;
+}
+export function MyComp4(props: any) {
+    return <p>Hello!</p>;
 }
       `,
     'component2.tsx': `
 import * as React from "react";
-import MyComp1, { MyComp2 } from "./component1";
-export default function (props: any) {
-    return <p><MyComp1 /><MyComp2 /></p>;
+import { MyComp1, MyComp2, MyComp3, MyComp4 } from "./component1";
+declare function hoistStatics(target: any, source: any): any;
+MyComp1.displayName = "MyComp1";
+hoistStatics(Wrapper, MyComp2);
+export function Wrapper(props: React.ComponentProps<typeof MyComp3>) {
+    return <p><MyComp1 /><MyComp2 /><MyComp3 /><Route component={MyComp4} /></p>;
+}
+function Route(props: { component: React.ComponentType }) {
+    return <props.component />;
 }
       `,
   };
 
   const expected = {
-    'component1.jsx': `
+    'component2.jsx': `
 import * as React from "react";
-export default function (props) {
+const _component1 = () => import("./component1");
+const MyComp3 = React.lazy(() => _component1().then(m => ({ default: m.MyComp3 })));
+const MyComp4 = React.lazy(() => _component1().then(m => ({ default: m.MyComp4 })));
+import { MyComp1, MyComp2 } from "./component1";
+MyComp1.displayName = "MyComp1";
+hoistStatics(Wrapper, MyComp2);
+export function Wrapper(props) {
+    return <p><MyComp1 /><MyComp2 /><MyComp3 /><Route component={MyComp4}/></p>;
+}
+function Route(props) {
+    return <props.component />;
+}
+      `,
+  };
+
+  expectEqual(expected, compile(code));
+
+  const expectedWithAllowedUsages = {
+    'component2.jsx': `
+import * as React from "react";
+const _component1 = () => import("./component1");
+const MyComp2 = React.lazy(() => _component1().then(m => ({ default: m.MyComp2 })));
+const MyComp3 = React.lazy(() => _component1().then(m => ({ default: m.MyComp3 })));
+import { MyComp1, MyComp4 } from "./component1";
+MyComp1.displayName = "MyComp1";
+hoistStatics(Wrapper, MyComp2);
+export function Wrapper(props) {
+    return <p><MyComp1 /><MyComp2 /><MyComp3 /><Route component={MyComp4}/></p>;
+}
+function Route(props) {
+    return <props.component />;
+}
+      `,
+  };
+
+  expectEqual(expectedWithAllowedUsages, compile(code, { allowedUsages: ['jsxTag', 'callArgument'] }));
+});
+
+test('can insert Suspense boundaries around lazy components', () => {
+  const code = {
+    'component1.tsx': `
+import * as React from "react";
+export function MyComp1(props: any) {
     return <p>Hello!</p>;
 }
-export function MyComp2(props) {
+export function MyComp2(props: any) {
     return <p>Hello!</p>;
 }
       `,
+    'component2.tsx': `
+import * as React from "react";
+import { MyComp1, MyComp2 } from "./component1";
+export function Page(props: { open: boolean }) {
+    return <div><h1>Title</h1><section>{props.open && <MyComp1 />}</section></div>;
+}
+export function OtherPage(props: any) {
+    return <React.Suspense fallback={null}><div><MyComp2 /></div></React.Suspense>;
+}
+      `,
+  };
+
+  const expectedUsage = {
     'component2.jsx': `
 import * as React from "react";
-import loadable from "@loadable/component";
-const MyComp1 = loadable(() => import("./component1"));
-import { MyComp2 } from "./component1";
-export default function (props) {
-    return <p><MyComp1 /><MyComp2 /></p>;
+const _component1 = () => import("./component1");
+const MyComp1 = React.lazy(() => _component1().then(m => ({ default: m.MyComp1 })));
+const MyComp2 = React.lazy(() => _component1().then(m => ({ default: m.MyComp2 })));
+export function Page(props) {
+    return <div><h1>Title</h1><section>{props.open && <React.Suspense fallback={"Loading..."}><MyComp1 /></React.Suspense>}</section></div>;
+}
+export function OtherPage(props) {
+    return <React.Suspense fallback={null}><div><MyComp2 /></div></React.Suspense>;
 }
       `,
   };
 
   expectEqual(
-    expected,
+    expectedUsage,
     compile(code, {
-      createComponentWrapperExpression: ts => {
-        return ts.createIdentifier('loadable');
-      },
-      createImportDeclaration: (ts, currentFile) => {
-        return ts.createImportDeclaration(
-          undefined,
-          undefined,
-          ts.createImportClause(ts.createIdentifier('loadable'), undefined),
-          ts.createStringLiteral('@loadable/component'),
-        );
-      },
-      onlyRewriteDefaultExports: true,
+      suspenseBoundaries: 'usage',
+      createSuspenseFallbackExpression: ts => ts.createStringLiteral('Loading...'),
     }),
   );
+
+  const expectedRoot = {
+    'component2.jsx': `
+import * as React from "react";
+const _component1 = () => import("./component1");
+const MyComp1 = React.lazy(() => _component1().then(m => ({ default: m.MyComp1 })));
+const MyComp2 = React.lazy(() => _component1().then(m => ({ default: m.MyComp2 })));
+export function Page(props) {
+    return <React.Suspense fallback={null}><div><h1>Title</h1><section>{props.open && <MyComp1 />}</section></div></React.Suspense>;
+}
+export function OtherPage(props) {
+    return <React.Suspense fallback={null}><React.Suspense fallback={null}><div><MyComp2 /></div></React.Suspense></React.Suspense>;
+}
+      `,
+  };
+
+  expectEqual(expectedRoot, compile(code, { suspenseBoundaries: 'root', skipUsagesInsideSuspense: false }));
 });
 
-test('bails out if it cannot remove the import', () => {
+test('can add webpack magic comments to the import calls', () => {
   const code = {
-    'component1.tsx': `
+    'components/checkout/index.tsx': `
 import * as React from "react";
 export default function (props: any) {
     return <p>Hello!</p>;
 }
-export function MyComp2(props: any) {
+      `,
+    'component1.tsx': `
+import * as React from "react";
+export function MyComp1(props: any) {
     return <p>Hello!</p>;
 }
-export const MyConst = "123";
       `,
     'component2.tsx': `
 import * as React from "react";
-import MyComp1, { MyComp2, MyConst } from "./component1";
+import Checkout from "./components/checkout/index";
+import { MyComp1 } from "./component1";
 export default function (props: any) {
-    return <p><MyComp1 /><MyComp2 /></p>;
+    return <p><Checkout /><MyComp1 /></p>;
 }
-const y = MyConst;
       `,
   };
 
   const expected = {
-    'component1.jsx': `
+    'component2.jsx': `
 import * as React from "react";
+const Checkout = React.lazy(() => import(/* webpackChunkName: "components-checkout" */ /* webpackPrefetch: true */ "./components/checkout/index"));
+const MyComp1 = React.lazy(() => import(/* webpackChunkName: "component1" */ /* webpackPrefetch: true */ "./component1").then(m => ({ default: m.MyComp1 })));
 export default function (props) {
-    return <p>Hello!</p>;
-}
-export function MyComp2(props) {
-    return <p>Hello!</p>;
+    return <p><Checkout /><MyComp1 /></p>;
 }
-export const MyConst = "123";
       `,
+  };
+
+  expectEqual(expected, compile(code, { webpackChunkNames: true, webpackPrefetch: true }));
+
+  const expectedWithCustomName = {
     'component2.jsx': `
 import * as React from "react";
-import MyComp1, { MyComp2, MyConst } from "./component1";
+const Checkout = React.lazy(() => import(/* webpackChunkName: "lazy-Checkout" */ /* webpackMode: "lazy-once" */ "./components/checkout/index"));
+const MyComp1 = React.lazy(() => import(/* webpackMode: "lazy-once" */ "./component1").then(m => ({ default: m.MyComp1 })));
 export default function (props) {
-    return <p><MyComp1 /><MyComp2 /></p>;
+    return <p><Checkout /><MyComp1 /></p>;
 }
-const y = MyConst;
       `,
   };
 
   expectEqual(
-    expected,
+    expectedWithCustomName,
     compile(code, {
-      onlyRewriteIfImportCanBeRemoved: true,
+      webpackChunkNames: true,
+      webpackMode: 'lazy-once',
+      getChunkName: (resolvedModulePath, componentName) =>
+        resolvedModulePath.indexOf('checkout') !== -1 ? 'lazy-' + componentName : null,
     }),
   );
 });
 
-function expectEqual(expected: Code, compiled: Code) {
-  Object.keys(expected).forEach(fileName => {
-    expect(fileName + ':\n' + (compiled[fileName] || '').trim()).toBe(
-      fileName + ':\n' + (expected[fileName] || '').trim(),
-    );
+test('default chunk names are unique for modules with the same file name', () => {
+  const code = {
+    'components/checkout/index.tsx': `
+import * as React from "react";
+export function Checkout(props: any) {
+    return <p>Checkout</p>;
+}
+      `,
+    'admin/checkout/index.tsx': `
+import * as React from "react";
+export function Checkout(props: any) {
+    return <p>Admin checkout</p>;
+}
+      `,
+    'pages/shop.tsx': `
+import * as React from "react";
+import { Checkout } from "../components/checkout/index";
+import { Checkout as AdminCheckout } from "../admin/checkout/index";
+export default function (props: any) {
+    return <p><Checkout /><AdminCheckout /></p>;
+}
+      `,
+  };
+
+  const expected = {
+    'pages/shop.jsx': `
+import * as React from "react";
+const Checkout = React.lazy(() => import(/* webpackChunkName: "components-checkout" */ "../components/checkout/index").then(m => ({ default: m.Checkout })));
+const AdminCheckout = React.lazy(() => import(/* webpackChunkName: "admin-checkout" */ "../admin/checkout/index").then(m => ({ default: m.Checkout })));
+export default function (props) {
+    return <p><Checkout /><AdminCheckout /></p>;
+}
+      `,
+  };
+
+  expectEqual(expected, compile(code, { webpackChunkNames: true }));
+  expectEqual(expected, compile(code, { webpackChunkNames: true, syntaxOnly: true }));
+});
+
+test('can create preload functions for lazy components', () => {
+  const code = {
+    'component1.tsx': `
+import * as React from "react";
+export default function (props: any) {
+    return <p>Hello!</p>;
+}
+export function MyComp2(props: any) {
+    return <p>Hello!</p>;
+}
+      `,
+    'component2.tsx': `
+import * as React from "react";
+import MyComp1, { MyComp2 } from "./component1";
+declare const preloadMyComp2: () => Promise<unknown>;
+export default function (props: any) {
+    return <p onMouseEnter={() => preloadMyComp2()}><MyComp1 /><MyComp2 /></p>;
+}
+      `,
+  };
+
+  const expectedProperty = {
+    'component2.jsx': `
+import * as React from "react";
+const _component1 = () => import("./component1");
+const loadMyComp1 = _component1;
+const MyComp1 = Object.assign(React.lazy(loadMyComp1), { preload: loadMyComp1 });
+const loadMyComp2 = () => _component1().then(m => ({ default: m.MyComp2 }));
+const MyComp2 = Object.assign(React.lazy(loadMyComp2), { preload: loadMyComp2 });
+export default function (props) {
+    return <p onMouseEnter={() => preloadMyComp2()}><MyComp1 /><MyComp2 /></p>;
+}
+      `,
+  };
+
+  expectEqual(expectedProperty, compile(code, { preload: 'property' }));
+
+  const expectedConst = {
+    'component2.jsx': `
+import * as React from "react";
+const _component1 = () => import("./component1");
+const preloadMyComp1 = _component1;
+const MyComp1 = React.lazy(preloadMyComp1);
+const preloadMyComp2 = () => _component1().then(m => ({ default: m.MyComp2 }));
+const MyComp2 = React.lazy(preloadMyComp2);
+export default function (props) {
+    return <p onMouseEnter={() => preloadMyComp2()}><MyComp1 /><MyComp2 /></p>;
+}
+      `,
+  };
+
+  expectEqual(expectedConst, compile(code, { preload: 'const' }));
+});
+
+test('components whose preload function would clash with a name in the file are not rewritten', () => {
+  const code = {
+    'component1.tsx': `
+import * as React from "react";
+export function MyComp1(props: any) {
+    return <p>Hello!</p>;
+}
+export function MyComp2(props: any) {
+    return <p>Hello!</p>;
+}
+      `,
+    'component2.tsx': `
+import * as React from "react";
+import { MyComp1, MyComp2 } from "./component1";
+const preloadMyComp1 = 5;
+declare const preloadMyComp2: () => Promise<unknown>;
+export default function (props: any) {
+    return <p onMouseEnter={() => preloadMyComp2()}><MyComp1 /><MyComp2 />{preloadMyComp1}</p>;
+}
+      `,
+  };
+
+  const reports: ImportReport[] = [];
+  const onReport = (importReport: ImportReport, currentFile: string) => {
+    if (currentFile === 'component2.tsx') {
+      reports.push(importReport);
+    }
+  };
+  const output = compile(code, { preload: 'const', onRewrite: onReport, onSkip: onReport });
+  expect(output['component2.jsx']).toContain('import { MyComp1 } from "./component1";');
+  expect(output['component2.jsx']).toContain('const preloadMyComp2 = () => import("./component1")');
+  expect(output['component2.jsx'].match(/const preloadMyComp1\b/g)).toHaveLength(1);
+
+  const loadableOutput = compile(code, { preload: 'const', loadable: 'client', onRewrite: onReport, onSkip: onReport });
+  expect(loadableOutput['component2.jsx']).toContain('import { MyComp1 } from "./component1";');
+  expect(loadableOutput['component2.jsx']).toContain('const preloadMyComp2 = () => MyComp2.load();');
+
+  expect(reports.map(r => r.components.map(c => [c.name, c.skipReason]))).toEqual([
+    [['MyComp1', 'preloadNameTaken'], ['MyComp2', undefined]],
+    [['MyComp1', 'preloadNameTaken'], ['MyComp2', undefined]],
+  ]);
+});
+
+test('components imported from the same module share a loader', () => {
+  const code = {
+    'layout.tsx': `
+import * as React from "react";
+export default function (props: any) {
+    return <main>{props.children}</main>;
+}
+export const Header = (props: any) => <header />;
+export const Footer = (props: any) => <footer />;
+      `,
+    'dialog.tsx': `
+import * as React from "react";
+export default function (props: any) {
+    return <dialog />;
+}
+      `,
+    'component2.tsx': `
+import * as React from "react";
+import { Header, Footer } from "./layout";
+import Dialog from "./dialog";
+import Main from "./layout";
+export default function (props: any) {
+    return <Main><Header /><Dialog /><Footer /></Main>;
+}
+      `,
+  };
+
+  const expected = {
+    'component2.jsx': `
+import * as React from "react";
+import loadable from "@loadable/component";
+const _layout = () => import("./layout");
+const Header = loadable(() => _layout().then(m => ({ default: m.Header })));
+const Footer = loadable(() => _layout().then(m => ({ default: m.Footer })));
+const Dialog = loadable(() => import("./dialog"));
+const Main = loadable(_layout);
+export default function (props) {
+    return <Main><Header /><Dialog /><Footer /></Main>;
+}
+      `,
+  };
+
+  expectEqual(
+    expected,
+    compile(code, {
+      createComponentWrapperExpression: ts => {
+        return ts.createIdentifier('loadable');
+      },
+      createImportDeclaration: (ts, currentFile) => {
+        return ts.createImportDeclaration(
+          undefined,
+          undefined,
+          ts.createImportClause(ts.createIdentifier('loadable'), undefined),
+          ts.createStringLiteral('@loadable/component'),
+        );
+      },
+    }),
+  );
+});
+
+test('reports what was rewritten and why things were skipped', () => {
+  const code = {
+    'component1.tsx': `
+import * as React from "react";
+export default function (props: any) {
+    return <p>Hello!</p>;
+}
+export function MyComp2(props: any) {
+    return <p>Hello!</p>;
+}
+export const MyConst = "123";
+      `,
+    'component2.tsx': `
+import * as React from "react";
+import MyComp1, { MyComp2, MyConst } from "./component1";
+export default function (props: any) {
+    return <p><MyComp1 /><MyComp2 />{MyConst}</p>;
+}
+      `,
+  };
+
+  const rewritten: ImportReport[] = [];
+  const skipped: ImportReport[] = [];
+  const reportFile = path.join(os.tmpdir(), 'lazy-import-report-' + process.pid + '.json');
+  compile(code, {
+    onlyRewriteDefaultExports: true,
+    onRewrite: importReport => rewritten.push(importReport),
+    onSkip: importReport => skipped.push(importReport),
+    reportFile,
+  });
+
+  const expectedReport: ImportReport = {
+    moduleSpecifier: './component1',
+    resolvedFileName: 'component1.tsx',
+    rewritten: true,
+    components: [
+      { name: 'MyComp1', exportName: 'default', resolvedFileName: 'component1.tsx', rewritten: true },
+      {
+        name: 'MyComp2',
+        exportName: 'MyComp2',
+        resolvedFileName: 'component1.tsx',
+        rewritten: false,
+        skipReason: 'onlyDefaultExports',
+      },
+      {
+        name: 'MyConst',
+        exportName: 'MyConst',
+        resolvedFileName: 'component1.tsx',
+        rewritten: false,
+        skipReason: 'notAComponent',
+      },
+    ],
+  };
+  expect(rewritten).toEqual([expectedReport]);
+  expect(skipped).toEqual([]);
+  expect(JSON.parse(fs.readFileSync(reportFile).toString())).toEqual({ 'component2.tsx': [expectedReport] });
+  fs.unlinkSync(reportFile);
+
+  compile(code, {
+    onlyRewriteIfImportCanBeRemoved: true,
+    onRewrite: importReport => rewritten.push(importReport),
+    onSkip: importReport => skipped.push(importReport),
+  });
+  expect(skipped.length).toBe(1);
+  expect(skipped[0].components.map(c => c.skipReason)).toEqual([
+    'importCannotBeRemoved',
+    'importCannotBeRemoved',
+    'notAComponent',
+  ]);
+});
+
+test('can rewrite imports without a program in syntax only mode', () => {
+  const code = `
+import * as React from "react";
+import MyComp1, { MyComp2, myFunc, MyConst } from "./component1";
+import { Link } from "react-router-dom";
+import Icon from "./icons/arrow";
+export default function (props: any) {
+    return <p><MyComp1 /><MyComp2 /><Link /><Icon />{myFunc(MyConst)}</p>;
+}
+    `;
+
+  const transpile = (options: Partial<Options>) =>
+    ts.transpileModule(code, {
+      compilerOptions: { target: ts.ScriptTarget.Latest, jsx: ts.JsxEmit.Preserve },
+      fileName: 'component2.tsx',
+      transformers: { before: [transformer(undefined, { syntaxOnly: true, ...options })] },
+    }).outputText;
+
+  expect(transpile({}).trim()).toBe(
+    `
+import * as React from "react";
+const _component1 = () => import("./component1");
+const MyComp1 = React.lazy(_component1);
+const MyComp2 = React.lazy(() => _component1().then(m => ({ default: m.MyComp2 })));
+import { myFunc, MyConst } from "./component1";
+import { Link } from "react-router-dom";
+const Icon = React.lazy(() => import("./icons/arrow"));
+export default function (props) {
+    return <p><MyComp1 /><MyComp2 /><Link /><Icon />{myFunc(MyConst)}</p>;
+}
+    `.trim(),
+  );
+
+  expect(transpile({ excludeModules: ['./icons/*'] }).trim()).toBe(
+    `
+import * as React from "react";
+const _component1 = () => import("./component1");
+const MyComp1 = React.lazy(_component1);
+const MyComp2 = React.lazy(() => _component1().then(m => ({ default: m.MyComp2 })));
+import { myFunc, MyConst } from "./component1";
+import { Link } from "react-router-dom";
+import Icon from "./icons/arrow";
+export default function (props) {
+    return <p><MyComp1 /><MyComp2 /><Link /><Icon />{myFunc(MyConst)}</p>;
+}
+    `.trim(),
+  );
+
+  expect(() => transformer(undefined)).toThrow();
+});
+
+test('can replace call to react using the node factory', () => {
+  const code = {
+    'component1.tsx': `
+import * as React from "react";
+export function MyComp1(props: any) {
+    return <p>Hello!</p>;
+}
+      `,
+    'component2.tsx': `
+import * as React from "react";
+import { MyComp1 } from "./component1";
+export default function (props: any) {
+    return <p><MyComp1 /></p>;
+}
+      `,
+  };
+
+  const expected = {
+    'component1.jsx': `
+import * as React from "react";
+export function MyComp1(props) {
+    return <p>Hello!</p>;
+}
+      `,
+    'component2.jsx': `
+import * as React from "react";
+import { lazy } from "@my/lazy";
+const MyComp1 = lazy(() => import("./component1").then(m => ({ default: m.MyComp1 })));
+export default function (props) {
+    return <p><MyComp1 /></p>;
+}
+      `,
+  };
+
+  expectEqual(
+    expected,
+    compile(code, {
+      createComponentWrapperExpression: factory => factory.createIdentifier('lazy'),
+      createImportDeclaration: (factory, currentFile) => {
+        return factory.createImportDeclaration(
+          undefined,
+          factory.createImportClause(
+            false,
+            undefined,
+            factory.createNamedImports([
+              factory.createImportSpecifier(false, undefined, factory.createIdentifier('lazy')),
+            ]),
+          ),
+          factory.createStringLiteral('@my/lazy'),
+        );
+      },
+    }),
+  );
+});
+
+test('hooks written for the ts namespace of TypeScript 3 keep working', () => {
+  const code = {
+    'component1.tsx': `
+import * as React from "react";
+export default function (props: any) {
+    return <p>Hello!</p>;
+}
+      `,
+    'component2.tsx': `
+import * as React from "react";
+import MyComp1 from "./component1";
+export default function (props: any) {
+    return <p><MyComp1 /></p>;
+}
+      `,
+  };
+
+  const expected = {
+    'component2.jsx': `
+import * as React from "react";
+import { loadable as load } from "@loadable/component";
+const MyComp1 = (loader => load(loader))(() => import("./component1"));
+export default function (props) {
+    return <p><MyComp1 /></p>;
+}
+      `,
+  };
+
+  const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  const legacy = (factory: any) => factory;
+  try {
+    expectEqual(
+      expected,
+      compile(code, {
+        createComponentWrapperExpression: factory =>
+          legacy(factory).createParen(
+            legacy(factory).createArrowFunction(
+              undefined,
+              undefined,
+              [legacy(factory).createParameter(undefined, undefined, undefined, 'loader')],
+              undefined,
+              undefined,
+              legacy(factory).createCall(legacy(factory).createIdentifier('load'), undefined, [
+                legacy(factory).createIdentifier('loader'),
+              ]),
+            ),
+          ),
+        createImportDeclaration: factory =>
+          legacy(factory).createImportDeclaration(
+            undefined,
+            undefined,
+            legacy(factory).createImportClause(
+              undefined,
+              legacy(factory).createNamedImports([
+                legacy(factory).createImportSpecifier(
+                  legacy(factory).createIdentifier('loadable'),
+                  legacy(factory).createIdentifier('load'),
+                ),
+              ]),
+            ),
+            legacy(factory).createLiteral('@loadable/component'),
+          ),
+      }),
+    );
+    expect(() =>
+      compile(code, {
+        createComponentWrapperExpression: factory => legacy(factory).createSomethingThatDoesNotExist(),
+      }),
+    ).toThrow("`createSomethingThatDoesNotExist()` doesn't exist in TypeScript");
+  } finally {
+    warn.mockRestore();
+  }
+});
+
+test('shouldRewrite can decide which components of an import to rewrite', () => {
+  const code = {
+    'component1.tsx': `
+import * as React from "react";
+export default function (props: any) {
+    return <p>Hello!</p>;
+}
+export function MyComp2(props: any) {
+    return <p>Hello!</p>;
+}
+export const MyConst = "123";
+      `,
+    'component2.tsx': `
+import * as React from "react";
+import MyComp1, { MyComp2 as Comp2, MyConst } from "./component1";
+export default function (props: any) {
+    return <p><MyComp1 /><Comp2 />{MyConst}</p>;
+}
+      `,
+  };
+
+  const expected = {
+    'component1.jsx': `
+import * as React from "react";
+export default function (props) {
+    return <p>Hello!</p>;
+}
+export function MyComp2(props) {
+    return <p>Hello!</p>;
+}
+export const MyConst = "123";
+      `,
+    'component2.jsx': `
+import * as React from "react";
+const Comp2 = React.lazy(() => import("./component1").then(m => ({ default: m.MyComp2 })));
+import MyComp1, { MyConst } from "./component1";
+export default function (props) {
+    return <p><MyComp1 /><Comp2 />{MyConst}</p>;
+}
+      `,
+  };
+
+  const contexts: ShouldRewriteContext[] = [];
+  expectEqual(
+    expected,
+    compile(code, {
+      shouldRewrite: (importSpecifier, currentFile, context) => {
+        contexts.push(context);
+        return context.components.filter(c => !c.isDefault).map(c => c.name);
+      },
+    }),
+  );
+  expect(contexts).toEqual([
+    {
+      resolvedFileName: 'component1.tsx',
+      isExternal: false,
+      components: [
+        { name: 'MyComp1', exportName: 'default', isDefault: true },
+        { name: 'Comp2', exportName: 'MyComp2', isDefault: false },
+      ],
+    },
+  ]);
+});
+
+test('only rewrites components listed in the manifest', () => {
+  const code = {
+    'component1.tsx': `
+import * as React from "react";
+export default function (props: any) {
+    return <p>Hello!</p>;
+}
+export function MyComp2(props: any) {
+    return <p>Hello!</p>;
+}
+      `,
+    'component2.tsx': `
+import * as React from "react";
+import MyComp1, { MyComp2 } from "./component1";
+export default function (props: any) {
+    return <p><MyComp1 /><MyComp2 /></p>;
+}
+      `,
+  };
+
+  const expected = {
+    'component1.jsx': `
+import * as React from "react";
+export default function (props) {
+    return <p>Hello!</p>;
+}
+export function MyComp2(props) {
+    return <p>Hello!</p>;
+}
+      `,
+    'component2.jsx': `
+import * as React from "react";
+const MyComp2 = React.lazy(() => import("./component1").then(m => ({ default: m.MyComp2 })));
+import MyComp1 from "./component1";
+export default function (props) {
+    return <p><MyComp1 /><MyComp2 /></p>;
+}
+      `,
+  };
+
+  const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+  try {
+    expectEqual(
+      expected,
+      compile(code, {
+        lazyComponentsManifest: { './component1.tsx': ['MyComp2', 'MyComp3'] },
+      }),
+    );
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0][0]).toContain('component1#MyComp3');
+  } finally {
+    warn.mockRestore();
+  }
+});
+
+test('members of namespace imports rendered as JSX get rewritten', () => {
+  const code = {
+    'icons.tsx': `
+import * as React from "react";
+export function Arrow(props: any) {
+    return <i>Arrow</i>;
+}
+export function Close(props: any) {
+    return <i>Close</i>;
+}
+export const size = 16;
+      `,
+    'buttons.tsx': `
+import * as React from "react";
+export default function Button(props: any) {
+    return <button />;
+}
+export function Submit(props: any) {
+    return <button type="submit" />;
+}
+      `,
+    'component.tsx': `
+import * as React from "react";
+import * as Icons from "./icons";
+import * as buttons from "./buttons";
+export default function (props: any) {
+    return <p><Icons.Arrow /><Icons.Close>{Icons.size}</Icons.Close><buttons.Submit /></p>;
+}
+      `,
+  };
+
+  const expected = {
+    'icons.jsx': `
+import * as React from "react";
+export function Arrow(props) {
+    return <i>Arrow</i>;
+}
+export function Close(props) {
+    return <i>Close</i>;
+}
+export const size = 16;
+      `,
+    'buttons.jsx': `
+import * as React from "react";
+export default function Button(props) {
+    return <button />;
+}
+export function Submit(props) {
+    return <button type="submit"/>;
+}
+      `,
+    'component.jsx': `
+import * as React from "react";
+const _icons = () => import("./icons");
+const Icons_Arrow = React.lazy(() => _icons().then(m => ({ default: m.Arrow })));
+const Icons_Close = React.lazy(() => _icons().then(m => ({ default: m.Close })));
+import * as Icons from "./icons";
+const buttons_Submit = React.lazy(() => import("./buttons").then(m => ({ default: m.Submit })));
+export default function (props) {
+    return <p><Icons_Arrow /><Icons_Close>{Icons.size}</Icons_Close><buttons_Submit /></p>;
+}
+      `,
+  };
+
+  expectEqual(expected, compile(code));
+});
+
+test('only rewrites components whose modules weigh more than the minimum', () => {
+  const code = {
+    'shared.ts': `
+export const label = "Hello";
+      `,
+    'heavy.ts': `
+export const a = 1;
+export const b = 2;
+export function sum() {
+    return a + b;
+}
+      `,
+    'types.ts': `
+export interface BigProps { title: string; }
+export const defaultTitle = "Big";
+      `,
+    'big.tsx': `
+import * as React from "react";
+import { sum } from "./heavy";
+import { label } from "./shared";
+import { BigProps } from "./types";
+export function Big(props: BigProps) {
+    return <p>{label}{sum()}</p>;
+}
+      `,
+    'small.tsx': `
+import * as React from "react";
+export function Small(props: any) {
+    return <p />;
+}
+      `,
+    'component.tsx': `
+import * as React from "react";
+import { label } from "./shared";
+import { Big } from "./big";
+import { Small } from "./small";
+export default function (props: any) {
+    return <div><Big /><Small />{label}</div>;
+}
+      `,
+  };
+
+  const reports: ImportReport[] = [];
+  const onReport = (importReport: ImportReport, currentFile: string) => {
+    if (currentFile === 'component.tsx') {
+      reports.push(importReport);
+    }
+  };
+  const output = compile(code, {
+    minimumModuleWeight: 5,
+    moduleWeightUnit: 'statements',
+    onRewrite: onReport,
+    onSkip: onReport,
+  });
+
+  expectEqual(
+    {
+      'component.jsx': `
+import * as React from "react";
+import { label } from "./shared";
+const Big = React.lazy(() => import("./big").then(m => ({ default: m.Big })));
+import { Small } from "./small";
+export default function (props) {
+    return <div><Big /><Small />{label}</div>;
+}
+      `,
+    },
+    output,
+  );
+  expect(reports.map(r => r.components.map(c => [c.name, c.weight, c.skipReason]))).toEqual([
+    [['Big', 6, undefined]],
+    [['Small', 2, 'belowMinimumWeight']],
+  ]);
+});
+
+test('modules that are loaded through imports of other things do not add to the weight', () => {
+  const code = {
+    'config.ts': `
+import { Dialog } from "./dialog";
+export const API_URL = "/api";
+export const dialogs = [Dialog];
+      `,
+    'dialog.tsx': `
+import * as React from "react";
+export function Dialog(props: any) {
+    const title = "Dialog";
+    return <div>{title}</div>;
+}
+      `,
+    'page.tsx': `
+import * as React from "react";
+import { API_URL } from "./config";
+import { Dialog } from "./dialog";
+export function Page(props: any) {
+    return <div data-api={API_URL}><Dialog /></div>;
+}
+      `,
+  };
+
+  const reports: ImportReport[] = [];
+  const diagnostics: ts.Diagnostic[] = [];
+  const output = compile(code, {
+    minimumModuleWeight: 1,
+    moduleWeightUnit: 'statements',
+    onSkip: (importReport, currentFile) => currentFile === 'page.tsx' && reports.push(importReport),
+    onDiagnostic: diagnostic => diagnostics.push(diagnostic),
+  });
+
+  expect(output['page.jsx']).toContain('import { Dialog } from "./dialog";');
+  expect(reports.map(r => r.components.map(c => [c.name, c.weight, c.skipReason]))).toEqual([
+    [['API_URL', undefined, 'notAComponent']],
+    [['Dialog', 0, 'belowMinimumWeight']],
+  ]);
+  expect(diagnostics.map(d => [d.code, d.messageText])).toEqual([
+    [
+      diagnosticCodes.belowMinimumWeight,
+      "`Dialog` isn't lazy loaded since that would only move 0 statements out of the bundle, " +
+        'which is less than the minimumModuleWeight of 1.',
+    ],
+  ]);
+});
+
+test('components from modules that are loaded synchronously anyway can be skipped or reported', () => {
+  const code = {
+    'entry.tsx': `
+import * as React from "react";
+import { title } from "./utils";
+import { Page } from "./page";
+import * as menu from "./menu";
+export const App = (props: menu.MenuProps) => <Page title={title} />;
+      `,
+    'utils.ts': `
+import { formatTitle } from "./dialog";
+export const title = formatTitle("Hello");
+      `,
+    'dialog.tsx': `
+import * as React from "react";
+export function Dialog(props: any) {
+    return <div />;
+}
+export const formatTitle = (title: string) => title.toUpperCase();
+      `,
+    'menu.tsx': `
+import * as React from "react";
+export interface MenuProps {}
+export function Menu(props: MenuProps) {
+    return <ul />;
+}
+      `,
+    'widget.tsx': `
+import * as React from "react";
+export function Widget(props: any) {
+    return <span />;
+}
+export const widgetSize = 10;
+      `,
+    'page.tsx': `
+import * as React from "react";
+import { Dialog } from "./dialog";
+import { Menu } from "./menu";
+import { Widget } from "./widget";
+import { widgetSize } from "./widget";
+export function Page(props: any) {
+    return <div><Dialog /><Menu /><Widget size={widgetSize} /></div>;
+}
+      `,
+  };
+
+  const expected = {
+    'page.jsx': `
+import * as React from "react";
+import { Dialog } from "./dialog";
+const Menu = React.lazy(() => import("./menu").then(m => ({ default: m.Menu })));
+import { Widget } from "./widget";
+import { widgetSize } from "./widget";
+export function Page(props) {
+    return <div><Dialog /><Menu /><Widget size={widgetSize}/></div>;
+}
+      `,
+  };
+
+  expectEqual(expected, compile(code, { entryPoints: ['entry.tsx'], synchronouslyLoadedModules: 'skip' }));
+
+  const reports: ImportReport[] = [];
+  compile(code, {
+    entryPoints: ['entry.tsx'],
+    synchronouslyLoadedModules: 'report',
+    onRewrite: importReport => reports.push(importReport),
+  });
+  expect(reports.map(r => r.components.map(c => [c.name, c.rewritten, c.loadedSynchronouslyBy]))).toEqual([
+    [['Dialog', true, 'utils.ts']],
+    [['Menu', true, undefined]],
+    [['Widget', true, 'page.tsx']],
+    [['Page', true, undefined]],
+  ]);
+});
+
+test('imports of things other than components are followed no matter how they are named', () => {
+  const code = {
+    'entry.tsx': `
+import * as React from "react";
+import { Store } from "./store";
+import { Page } from "./page";
+export const store = new Store();
+export const App = () => <Page />;
+      `,
+    'store.ts': `
+import { Dialog } from "./dialog";
+export class Store {
+    dialog = Dialog;
+}
+      `,
+    'config.ts': `
+import { Modal } from "./modal";
+export const API_URL = "/api";
+export const modals = [Modal];
+      `,
+    'dialog.tsx': `
+import * as React from "react";
+export function Dialog(props: any) {
+    return <div />;
+}
+      `,
+    'modal.tsx': `
+import * as React from "react";
+export function Modal(props: any) {
+    return <div />;
+}
+      `,
+    'menu.tsx': `
+import * as React from "react";
+export function Menu(props: any) {
+    return <ul />;
+}
+      `,
+    'page.tsx': `
+import * as React from "react";
+import { API_URL } from "./config";
+import { Dialog } from "./dialog";
+import { Modal } from "./modal";
+import { Menu } from "./menu";
+export function Page(props: any) {
+    return <div data-api={API_URL}><Dialog /><Modal /><Menu /></div>;
+}
+      `,
+  };
+
+  const expected = {
+    'page.jsx': `
+import * as React from "react";
+import { API_URL } from "./config";
+import { Dialog } from "./dialog";
+import { Modal } from "./modal";
+const Menu = React.lazy(() => import("./menu").then(m => ({ default: m.Menu })));
+export function Page(props) {
+    return <div data-api={API_URL}><Dialog /><Modal /><Menu /></div>;
+}
+      `,
+  };
+
+  const reports: ImportReport[] = [];
+  const onReport = (importReport: ImportReport, currentFile: string) => {
+    if (currentFile === 'page.tsx') {
+      reports.push(importReport);
+    }
+  };
+  const options = { entryPoints: ['entry.tsx'], onRewrite: onReport, onSkip: onReport };
+  expectEqual(expected, compile(code, { ...options, synchronouslyLoadedModules: 'skip' }));
+  expect(reports.map(r => r.components.map(c => [c.name, c.skipReason, c.loadedSynchronouslyBy]))).toEqual([
+    [['API_URL', 'notAComponent', undefined]],
+    [['Dialog', 'loadedSynchronously', 'store.ts']],
+    [['Modal', 'loadedSynchronously', 'config.ts']],
+    [['Menu', undefined, undefined]],
+  ]);
+});
+
+test('components from modules that import the current file are not rewritten', () => {
+  const code = {
+    'layout.tsx': `
+import * as React from "react";
+import { Sidebar } from "./sidebar";
+import { Footer } from "./footer";
+export const layoutWidth = 960;
+export function Layout(props: any) {
+    return <div><Sidebar /><Footer /></div>;
+}
+      `,
+    'sidebar.tsx': `
+import * as React from "react";
+import { sidebarWidth } from "./sizes";
+export function Sidebar(props: any) {
+    return <div style={{ width: sidebarWidth }} />;
+}
+      `,
+    'sizes.ts': `
+import { layoutWidth } from "./layout";
+export const sidebarWidth = layoutWidth / 4;
+      `,
+    'footer.tsx': `
+import * as React from "react";
+export function Footer(props: any) {
+    return <footer />;
+}
+      `,
+  };
+
+  const expected = {
+    'layout.jsx': `
+import * as React from "react";
+import { Sidebar } from "./sidebar";
+const Footer = React.lazy(() => import("./footer").then(m => ({ default: m.Footer })));
+export const layoutWidth = 960;
+export function Layout(props) {
+    return <div><Sidebar /><Footer /></div>;
+}
+      `,
+  };
+
+  const reports: ImportReport[] = [];
+  const onReport = (importReport: ImportReport, currentFile: string) => {
+    if (currentFile === 'layout.tsx') {
+      reports.push(importReport);
+    }
+  };
+  expectEqual(expected, compile(code, { onRewrite: onReport, onSkip: onReport }));
+  expect(reports.map(r => r.components.map(c => [c.name, c.skipReason, c.circularImportPath]))).toEqual([
+    [['Sidebar', 'circularImport', ['layout.tsx', 'sidebar.tsx', 'sizes.ts', 'layout.tsx']]],
+    [['Footer', undefined, undefined]],
+  ]);
+
+  expect(compile(code, { circularImports: 'rewrite' })['layout.jsx']).toContain('const Sidebar = React.lazy(');
+});
+
+test('imports that are only used as types do not make an import circular', () => {
+  const code = {
+    'parent.tsx': `
+import * as React from "react";
+import { Child } from "./child";
+export interface ParentProps { title: string; }
+export const parentWidth = 960;
+export function Parent(props: ParentProps) {
+    return <div><Child title={props.title} /></div>;
+}
+      `,
+    'child.tsx': `
+import * as React from "react";
+import { ParentProps, parentWidth } from "./parent";
+export function Child(props: ParentProps & { width?: typeof parentWidth }) {
+    return <h1>{props.title}</h1>;
+}
+      `,
+  };
+
+  const expected = {
+    'parent.jsx': `
+import * as React from "react";
+const Child = React.lazy(() => import("./child").then(m => ({ default: m.Child })));
+export const parentWidth = 960;
+export function Parent(props) {
+    return <div><Child title={props.title}/></div>;
+}
+      `,
+  };
+
+  const reports: ImportReport[] = [];
+  const onReport = (importReport: ImportReport, currentFile: string) => {
+    if (currentFile === 'parent.tsx') {
+      reports.push(importReport);
+    }
+  };
+  expectEqual(expected, compile(code, { onRewrite: onReport, onSkip: onReport }));
+  expect(reports.map(r => r.components.map(c => [c.name, c.skipReason]))).toEqual([[['Child', undefined]]]);
+});
+
+test('reports diagnostics for rewrites that might not behave like the original import', () => {
+  const code = {
+    'dialog.tsx': `
+import * as React from "react";
+export function Dialog(props: any) {
+    return <div />;
+}
+export const formatTitle = (title: string) => title.toUpperCase();
+      `,
+    'menu.tsx': `
+import * as React from "react";
+export function Menu(props: any) {
+    return <ul />;
+}
+      `,
+    'page.tsx': `
+import * as React from "react";
+import { Dialog, formatTitle } from "./dialog";
+import { Menu } from "./menu";
+// @ts-ignore
+import { Missing } from "./missing";
+const Route = (props: any) => null;
+export function Page(props: any) {
+    return (
+        <div title={formatTitle("Hello")}>
+            <React.Suspense fallback={null}><Dialog /></React.Suspense>
+            <Menu />
+            <Route component={Menu} />
+        </div>
+    );
+}
+      `,
+  };
+
+  const diagnostics: ts.Diagnostic[] = [];
+  compile(code, {
+    diagnosticCategories: { renderedOutsideSuspense: ts.DiagnosticCategory.Error },
+    onDiagnostic: diagnostic => diagnostics.push(diagnostic),
+  });
+  expect(
+    diagnostics.map(d => [
+      d.file!.fileName,
+      d.code,
+      d.category,
+      d.file!.text.substr(d.start!, d.length!).split('\n')[0],
+      d.messageText,
+    ]),
+  ).toEqual([
+    [
+      'page.tsx',
+      diagnosticCodes.importPartlyKept,
+      ts.DiagnosticCategory.Message,
+      'import { Dialog, formatTitle } from "./dialog";',
+      "The import of './dialog' is kept for `formatTitle`, so the module is still loaded synchronously even though " +
+        '`Dialog` is lazy loaded.',
+    ],
+    [
+      'page.tsx',
+      diagnosticCodes.renderedOutsideSuspense,
+      ts.DiagnosticCategory.Error,
+      'Menu',
+      '`Menu` is lazy loaded but not rendered inside a Suspense boundary in this file, ' +
+        'so one of the components that render it has to provide one.',
+    ],
+    [
+      'page.tsx',
+      diagnosticCodes.usedAsValue,
+      ts.DiagnosticCategory.Warning,
+      'Menu',
+      '`Menu` is lazy loaded, so this refers to the lazy component rather than the original export.',
+    ],
+    [
+      'page.tsx',
+      diagnosticCodes.unresolvedModule,
+      ts.DiagnosticCategory.Warning,
+      '"./missing"',
+      "Module './missing' could not be resolved, so the components imported from it could not be checked.",
+    ],
+  ]);
+
+  const transformerFactory = transformer(undefined, { syntaxOnly: true, suspenseBoundaries: 'usage' });
+  ts.transpileModule(code['page.tsx'], {
+    compilerOptions: { target: ts.ScriptTarget.Latest, jsx: ts.JsxEmit.Preserve },
+    fileName: 'page.tsx',
+    transformers: { before: [transformerFactory] },
+  });
+  expect(transformerFactory.getDiagnostics().map(d => d.code)).toEqual([
+    diagnosticCodes.importPartlyKept,
+    diagnosticCodes.usedAsValue,
+  ]);
+});
+
+test('comments in front of imports and bindings override the options', () => {
+  const code = {
+    'hero.tsx': `
+import * as React from "react";
+export default function Hero(props: any) {
+    return <div />;
+}
+      `,
+    'checkout.tsx': `
+import * as React from "react";
+export function Checkout(props: any) {
+    return <div />;
+}
+export function Cart(props: any) {
+    return <div />;
+}
+      `,
+    'page.tsx': `
+import * as React from "react";
+/* @lazy-import: sync */
+import Hero from "./hero";
+import { /* @lazy-import: lazy chunk=checkout */ Checkout, Cart } from "./checkout";
+export function Page(props: any) {
+    return <div><Hero /><Checkout /><Cart /></div>;
+}
+      `,
+  };
+
+  const expected = {
+    'page.jsx': `
+import * as React from "react";
+/* @lazy-import: sync */
+import Hero from "./hero";
+const Checkout = React.lazy(() => import(/* webpackChunkName: "checkout" */ "./checkout").then(m => ({ default: m.Checkout })));
+import { Cart } from "./checkout";
+export function Page(props) {
+    return <div><Hero /><Checkout /><Cart /></div>;
+}
+      `,
+  };
+
+  const reports: ImportReport[] = [];
+  const onReport = (importReport: ImportReport, currentFile: string) => {
+    if (currentFile === 'page.tsx') {
+      reports.push(importReport);
+    }
+  };
+  expectEqual(expected, compile(code, { onlyRewriteDefaultExports: true, onRewrite: onReport, onSkip: onReport }));
+  expect(reports.map(r => r.components.map(c => [c.name, c.skipReason]))).toEqual([
+    [['Hero', 'syncPragma']],
+    [['Checkout', undefined], ['Cart', 'onlyDefaultExports']],
+  ]);
+});
+
+test('comments at the end of a line belong to the binding in front of them', () => {
+  const code = {
+    'layout.tsx': `
+import * as React from "react";
+export const Header = (props: any) => <header />;
+export const Hero = (props: any) => <div />;
+export const Footer = (props: any) => <footer />;
+export const Sidebar = (props: any) => <aside />;
+      `,
+    'page.tsx': `
+import * as React from "react";
+import {
+  Header, /* @lazy-import: sync */ Hero,
+  Footer, // @lazy-import: sync
+  Sidebar,
+} from "./layout";
+export function Page(props: any) {
+    return <div><Header /><Hero /><Footer /><Sidebar /></div>;
+}
+      `,
+  };
+
+  const reports: ImportReport[] = [];
+  const onReport = (importReport: ImportReport, currentFile: string) => {
+    if (currentFile === 'page.tsx') {
+      reports.push(importReport);
+    }
+  };
+  compile(code, { onRewrite: onReport, onSkip: onReport });
+  expect(reports.map(r => r.components.map(c => [c.name, c.skipReason]))).toEqual([
+    [['Header', undefined], ['Hero', 'syncPragma'], ['Footer', 'syncPragma'], ['Sidebar', undefined]],
+  ]);
+});
+
+test('keeps the comments and source positions of rewritten imports', () => {
+  const code = {
+    'checkout.tsx': `
+import * as React from "react";
+export function Checkout(props: any) {
+    return <div />;
+}
+export const formatPrice = (price: number) => price.toFixed(2);
+      `,
+    'cart.tsx': `
+import * as React from "react";
+export default function Cart(props: any) {
+    return <div />;
+}
+      `,
+    'page.tsx': `import * as React from "react";
+// eslint-disable-next-line import/no-cycle
+import { Checkout, formatPrice } from "./checkout"; // checkout
+/** The cart */
+import Cart from "./cart";
+export function Page(props: any) {
+    return <div>{formatPrice(1)}<Checkout /><Cart /></div>;
+}
+`,
+  };
+
+  const expected = {
+    'page.jsx': `
+import * as React from "react";
+// eslint-disable-next-line import/no-cycle
+const Checkout = React.lazy(() => import("./checkout").then(m => ({ default: m.Checkout })));
+import { formatPrice } from "./checkout"; // checkout
+/** The cart */
+const Cart = React.lazy(() => import("./cart"));
+export function Page(props) {
+    return <div>{formatPrice(1)}<Checkout /><Cart /></div>;
+}
+      `,
+  };
+
+  expectEqual(expected, compile(code));
+
+  const { outputText, sourceMapText } = ts.transpileModule(code['page.tsx'], {
+    compilerOptions: { target: ts.ScriptTarget.Latest, jsx: ts.JsxEmit.Preserve, sourceMap: true },
+    fileName: 'page.tsx',
+    transformers: { before: [transformer(undefined, { syntaxOnly: true })] },
+  });
+  const mappedLines = getMappedSourceLines(sourceMapText!);
+  const outputLines = outputText.split('\n');
+  const mappedLineOf = (text: string) => mappedLines[outputLines.findIndex(l => l.indexOf(text) === 0)];
+  expect(mappedLineOf('const Checkout')).toBe(2);
+  expect(mappedLineOf('import { formatPrice }')).toBe(2);
+  expect(mappedLineOf('const Cart')).toBe(4);
+});
+
+test('can retry loading lazy components', async () => {
+  const code = {
+    'checkout.tsx': `
+import * as React from "react";
+export default function Checkout(props: any) {
+    return <div />;
+}
+export function Cart(props: any) {
+    return <div />;
+}
+      `,
+    'page.tsx': `
+import * as React from "react";
+import Checkout, { Cart } from "./checkout";
+export function Page(props: any) {
+    return <div><Checkout /><Cart /></div>;
+}
+      `,
+  };
+
+  const expected = {
+    'page.jsx': `
+import * as React from "react";
+import { retryImport as _retryImport } from "@avensia-oss/ts-transform-import-to-lazy-async-import/dist/src/runtime";
+const _checkout = () => _retryImport(() => import("./checkout"), { attempts: 5, reloadOnFailure: true });
+const Checkout = React.lazy(_checkout);
+const Cart = React.lazy(() => _checkout().then(m => ({ default: m.Cart })));
+export function Page(props) {
+    return <div><Checkout /><Cart /></div>;
+}
+      `,
+  };
+
+  expectEqual(expected, compile(code, { retryChunkLoad: { attempts: 5, reloadOnFailure: true } }));
+
+  const expectedWithCustomWrapper = {
+    'page.jsx': `
+import * as React from "react";
+import { lazy } from "@my/lazy";
+import { retryImport as _retryImport } from "./retry";
+const _checkout = () => _retryImport(() => import("./checkout"));
+const Checkout = lazy(_checkout);
+const Cart = lazy(() => _checkout().then(m => ({ default: m.Cart })));
+export function Page(props) {
+    return <div><Checkout /><Cart /></div>;
+}
+      `,
+  };
+
+  expectEqual(
+    expectedWithCustomWrapper,
+    compile(code, {
+      retryChunkLoad: {},
+      retryRuntimeModule: './retry',
+      createComponentWrapperExpression: factory => factory.createIdentifier('lazy'),
+      createImportDeclaration: factory =>
+        factory.createImportDeclaration(
+          undefined,
+          factory.createImportClause(
+            false,
+            undefined,
+            factory.createNamedImports([
+              factory.createImportSpecifier(false, undefined, factory.createIdentifier('lazy')),
+            ]),
+          ),
+          factory.createStringLiteral('@my/lazy'),
+        ),
+    }),
+  );
+
+  let calls = 0;
+  const load = () => (++calls < 3 ? Promise.reject(new Error('ChunkLoadError')) : Promise.resolve('module'));
+  await expect(retryImport(load, { delay: 0 })).resolves.toBe('module');
+  expect(calls).toBe(3);
+  calls = 0;
+  await expect(retryImport(load, { attempts: 2, delay: 0 })).rejects.toThrow('ChunkLoadError');
+  expect(calls).toBe(2);
+});
+
+test('works in files without an import of React', () => {
+  const code = {
+    'dialog.tsx': `
+export function Dialog(props: any) {
+    return <div />;
+}
+      `,
+    'page.tsx': `
+import { Dialog } from "./dialog";
+const _lazy = "taken";
+export function Page(props: any) {
+    return <div title={_lazy}><Dialog /></div>;
+}
+      `,
+    'modal.tsx': `
+import * as R from "react";
+import { Dialog } from "./dialog";
+export function Modal(props: any) {
+    const [open] = R.useState(false);
+    return <div>{open && <Dialog />}</div>;
+}
+      `,
+  };
+
+  const expected = {
+    'page.jsx': `
+import { lazy as _lazy_1, Suspense as _Suspense } from "react";
+const Dialog = _lazy_1(() => import("./dialog").then(m => ({ default: m.Dialog })));
+const _lazy = "taken";
+export function Page(props) {
+    return <div title={_lazy}><_Suspense fallback={null}><Dialog /></_Suspense></div>;
+}
+      `,
+    'modal.jsx': `
+import * as R from "react";
+const Dialog = R.lazy(() => import("./dialog").then(m => ({ default: m.Dialog })));
+export function Modal(props) {
+    const [open] = R.useState(false);
+    return <div>{open && <R.Suspense fallback={null}><Dialog /></R.Suspense>}</div>;
+}
+      `,
+  };
+
+  expectEqual(expected, compile(code, { suspenseBoundaries: 'usage' }));
+});
+
+test('can rewrite components of other frameworks', () => {
+  const vue = {
+    'vue.d.ts': `
+declare module "vue" {
+    export interface VNode { type: any }
+    export function defineComponent<P>(setup: (props: P) => () => VNode): { new (): { $props: P } };
+    export function defineAsyncComponent<T>(loader: () => Promise<T>): T;
+    export function h(type: string): VNode;
+}
+      `,
+    'dialog.tsx': `
+import { defineComponent, h } from "vue";
+export const Dialog = defineComponent((props: { title: string }) => () => h("div"));
+      `,
+    'page.tsx': `
+import { defineComponent } from "vue";
+import { Dialog } from "./dialog";
+export const Page = defineComponent(() => () => <Dialog title="Hi" />);
+      `,
+  };
+  expectEqual(
+    {
+      'page.jsx': `
+import { defineComponent } from "vue";
+import { defineAsyncComponent as _defineAsyncComponent } from "vue";
+const Dialog = _defineAsyncComponent(() => import("./dialog").then(m => m.Dialog));
+export const Page = defineComponent(() => () => <Dialog title="Hi"/>);
+      `,
+    },
+    compile(vue, { framework: 'vue' }),
+  );
+  expect(() => compile(vue, { framework: 'vue', suspenseBoundaries: 'usage' })).toThrow();
+
+  const solid = {
+    'solid.d.ts': `
+declare module "solid-js" {
+    export namespace JSX {
+        interface Node { nodeType: number }
+        interface ArrayElement extends Array<Element> {}
+        type Element = Node | ArrayElement | string | number | null | undefined;
+    }
+    export type Component<P = {}> = (props: P) => JSX.Element;
+    export function lazy<T extends Component<any>>(load: () => Promise<{ default: T }>): T;
+    export function Suspense(props: { fallback: JSX.Element; children: JSX.Element }): JSX.Element;
+}
+      `,
+    'counter.tsx': `
+import { Component } from "solid-js";
+export const Counter: Component<{ start: number }> = props => <div />;
+      `,
+    'app.tsx': `
+import { Counter } from "./counter";
+export function App() {
+    return <main><Counter start={1} /></main>;
+}
+      `,
+  };
+  expectEqual(
+    {
+      'app.jsx': `
+import { lazy as _lazy, Suspense as _Suspense } from "solid-js";
+const Counter = _lazy(() => import("./counter").then(m => ({ default: m.Counter })));
+export function App() {
+    return <main><_Suspense fallback={null}><Counter start={1}/></_Suspense></main>;
+}
+      `,
+    },
+    compile(solid, { framework: 'solid', suspenseBoundaries: 'usage' }),
+  );
+
+  const preact = {
+    'preact.d.ts': `
+declare module "preact" {
+    export interface VNode<P = any> { type: any; props: P }
+    export type FunctionComponent<P = {}> = (props: P) => VNode<any> | null;
+}
+declare module "preact/compat" {
+    import { FunctionComponent, VNode } from "preact";
+    export function lazy<T extends FunctionComponent<any>>(load: () => Promise<{ default: T }>): T;
+    export function Suspense(props: { fallback: VNode<any> | null; children?: any }): VNode<any>;
+}
+      `,
+    'menu.tsx': `
+import { VNode } from "preact";
+export function Menu(props: { items: string[] }): VNode {
+    return <ul />;
+}
+      `,
+    'header.tsx': `
+import { Menu } from "./menu";
+export function Header() {
+    return <header><Menu items={[]} /></header>;
+}
+      `,
+  };
+  expectEqual(
+    {
+      'header.jsx': `
+import { lazy as _lazy, Suspense as _Suspense } from "preact/compat";
+const Menu = _lazy(() => import("./menu").then(m => ({ default: m.Menu })));
+export function Header() {
+    return <header><_Suspense fallback={null}><Menu items={[]}/></_Suspense></header>;
+}
+      `,
+    },
+    compile(preact, { framework: 'preact', suspenseBoundaries: 'usage' }),
+  );
+});
+
+test('can emit loadable components for server rendering', () => {
+  const code = {
+    'hero.tsx': `
+import * as React from "react";
+export default function Hero(props: any) {
+    return <div />;
+}
+export function HeroImage(props: any) {
+    return <img />;
+}
+      `,
+    'page.tsx': `
+import * as React from "react";
+import Hero, { HeroImage } from "./hero";
+export function Page(props: any) {
+    return <div><Hero /><HeroImage /></div>;
+}
+      `,
+  };
+
+  expectEqual(
+    {
+      'page.jsx': `
+import * as React from "react";
+import _loadable from "@loadable/component";
+const _hero = {
+    resolved: {},
+    chunkName: function () {
+        return "hero";
+    },
+    isReady: function () {
+        const key = this.resolve();
+        if (this.resolved[key] !== true) {
+            return false;
+        }
+        if (typeof __webpack_modules__ !== "undefined") {
+            return !!__webpack_modules__[key];
+        }
+        return false;
+    },
+    importAsync: () => import(/* webpackChunkName: "hero" */ "./hero"),
+    requireAsync: function () {
+        const key = this.resolve();
+        this.resolved[key] = false;
+        return this.importAsync().then(resolved => {
+            this.resolved[key] = true;
+            return resolved;
+        });
+    },
+    requireSync: function () {
+        const id = this.resolve();
+        if (typeof __webpack_require__ !== "undefined") {
+            return __webpack_require__(id);
+        }
+        return eval("module.require")(id);
+    },
+    resolve: function () {
+        if (require.resolveWeak) {
+            return require.resolveWeak("./hero");
+        }
+        return eval("require.resolve")("./hero");
+    }
+};
+const Hero = _loadable(_hero);
+const HeroImage = _loadable(_hero, { resolveComponent: m => m.HeroImage });
+export function Page(props) {
+    return <div><Hero /><HeroImage /></div>;
+}
+      `,
+    },
+    compile(code, { loadable: 'client' }),
+  );
+  expectEqual(
+    {
+      'page.jsx': `
+import * as React from "react";
+import _loadable from "@loadable/component";
+import * as _hero_module from "./hero";
+const _hero = {
+    chunkName: function () {
+        return "hero";
+    },
+    isReady: function () {
+        return true;
+    },
+    importAsync: () => Promise.resolve(_hero_module),
+    requireAsync: function () {
+        return Promise.resolve(_hero_module);
+    },
+    requireSync: function () {
+        return _hero_module;
+    },
+    resolve: function () {
+        if (require.resolveWeak) {
+            return require.resolveWeak("./hero");
+        }
+        return eval("require.resolve")("./hero");
+    }
+};
+const Hero = _loadable(_hero);
+const HeroImage = _loadable(_hero, { resolveComponent: m => m.HeroImage });
+export function Page(props) {
+    return <div><Hero /><HeroImage /></div>;
+}
+      `,
+    },
+    compile(code, { loadable: 'server' }),
+  );
+});
+
+test('only rewrites components mounted as routes', () => {
+  const code = {
+    'pages.tsx': `
+import * as React from "react";
+export function Home(props: any) {
+    return <div />;
+}
+export function Checkout(props: any) {
+    return <div />;
+}
+export function Account(props: any) {
+    return <div />;
+}
+export function Orders(props: any) {
+    return <div />;
+}
+export function Header(props: any) {
+    return <div />;
+}
+      `,
+    'app.tsx': `
+import * as React from "react";
+import { Home, Checkout, Header } from "./pages";
+declare const Route: any;
+export function App() {
+    return (
+        <div>
+            <Header />
+            <Route path="/" component={Home} />
+            <Route path="/checkout" render={() => <Checkout />} />
+        </div>
+    );
+}
+      `,
+    'routes.tsx': `
+import * as React from "react";
+import { Account, Orders } from "./pages";
+export const routes = [
+    { path: "/account", element: <Account />, children: [{ path: "orders", component: Orders }] },
+];
+      `,
+  };
+
+  const expected = {
+    'app.jsx': `
+import * as React from "react";
+const _pages = () => import("./pages");
+const Home = React.lazy(() => _pages().then(m => ({ default: m.Home })));
+const Checkout = React.lazy(() => _pages().then(m => ({ default: m.Checkout })));
+import { Header } from "./pages";
+export function App() {
+    return (<div>
+            <Header />
+            <Route path="/" component={Home}/>
+            <Route path="/checkout" render={() => <Checkout />}/>
+        </div>);
+}
+      `,
+    'routes.jsx': `
+import * as React from "react";
+const _pages = () => import("./pages");
+const Account = React.lazy(() => _pages().then(m => ({ default: m.Account })));
+const Orders = React.lazy(() => _pages().then(m => ({ default: m.Orders })));
+export const routes = [
+    { path: "/account", element: <Account />, children: [{ path: "orders", component: Orders }] },
+];
+      `,
+  };
+
+  expectEqual(expected, compile(code, { onlyRewriteRoutes: true }));
+
+  const withOtherNames = compile(code, {
+    onlyRewriteRoutes: true,
+    routeElementNames: ['PrivateRoute'],
+    routeConfigNames: ['appRoutes'],
+  });
+  expect(withOtherNames['app.jsx']).toContain('import { Home, Checkout, Header } from "./pages";');
+  expect(withOtherNames['routes.jsx']).toContain('import { Account, Orders } from "./pages";');
+});
+
+test('can only rewrite components that are rendered conditionally', () => {
+  const code = {
+    'widgets.tsx': `
+import * as React from "react";
+export function Banner(props: any) {
+    return <div />;
+}
+export function Cart(props: any) {
+    return <div />;
+}
+export function Dialog(props: any) {
+    return <div />;
+}
+export function Help(props: any) {
+    return <div />;
+}
+export function Reviews(props: any) {
+    return <div />;
+}
+export function Tooltip(props: any) {
+    return <div />;
+}
+export function Zoom(props: any) {
+    return <div />;
+}
+      `,
+    'page.tsx': `
+import * as React from "react";
+import { Banner, Cart, Dialog, Help, Reviews, Tooltip, Zoom } from "./widgets";
+declare const Modal: any;
+declare const Hover: any;
+export function Page(props: { step: number }) {
+    const [showHelp, setShowHelp] = React.useState(false);
+    const [zoomed, setZoomed] = React.useState(false);
+    if (zoomed) {
+        return <Zoom />;
+    }
+    return (
+        <div>
+            <Banner />
+            {props.step === 2 && <Cart />}
+            {props.step === 3 ? <Reviews /> : <Banner />}
+            <Modal isOpen={showHelp}><Help /></Modal>
+            <Dialog open={props.step === 4}></Dialog>
+            <Hover render={() => <Tooltip />} />
+        </div>
+    );
+}
+      `,
+    'panel.tsx': `
+import * as React from "react";
+import { Cart } from "./widgets";
+export function Panel() {
+    const [open, setOpen] = React.useState(false);
+    if (!open) {
+        return null;
+    }
+    return <Cart />;
+}
+      `,
+  };
+
+  const reports: { [fileName: string]: ImportReport } = {};
+  const compiled = compile(code, {
+    onlyRewriteConditionallyRendered: true,
+    onRewrite: (r, currentFile) => (reports[currentFile] = r),
+  });
+  expect(compiled['page.jsx']).toContain('import { Banner } from "./widgets";');
+  expect(reports['panel.tsx'].components[0].renderConditions).toEqual([{ line: 9, condition: 'stateBranch' }]);
+  const components = reports['page.tsx'].components.map(c => ({
+    name: c.name,
+    skipReason: c.skipReason,
+    conditions: (c.renderConditions || []).map(u => u.line + ': ' + u.condition),
+  }));
+  expect(components).toEqual([
+    { name: 'Banner', skipReason: 'renderedUnconditionally', conditions: ['14: unconditional', '16: ternary'] },
+    { name: 'Cart', skipReason: undefined, conditions: ['15: logicalAnd'] },
+    { name: 'Dialog', skipReason: undefined, conditions: ['18: openProp'] },
+    { name: 'Help', skipReason: undefined, conditions: ['17: openProp'] },
+    { name: 'Reviews', skipReason: undefined, conditions: ['16: ternary'] },
+    { name: 'Tooltip', skipReason: undefined, conditions: ['19: renderCallback'] },
+    { name: 'Zoom', skipReason: undefined, conditions: ['10: stateBranch'] },
+  ]);
+});
+
+test('can replace call to react', () => {
+  const code = {
+    'component1.tsx': `
+import * as React from "react";
+export default function (props: any) {
+    return <p>Hello!</p>;
+}
+export function MyComp2(props: any) {
+    return <p>Hello!</p>;
+}
+      `,
+    'component2.tsx': `
+import * as React from "react";
+import MyComp1, { MyComp2 } from "./component1";
+export default function (props: any) {
+    return <p><MyComp1 /><MyComp2 /></p>;
+}
+      `,
+  };
+
+  const expected = {
+    'component1.jsx': `
+import * as React from "react";
+export default function (props) {
+    return <p>Hello!</p>;
+}
+export function MyComp2(props) {
+    return <p>Hello!</p>;
+}
+      `,
+    'component2.jsx': `
+import * as React from "react";
+import loadable from "@loadable/component";
+const MyComp1 = loadable(() => import("./component1"));
+import { MyComp2 } from "./component1";
+export default function (props) {
+    return <p><MyComp1 /><MyComp2 /></p>;
+}
+      `,
+  };
+
+  expectEqual(
+    expected,
+    compile(code, {
+      createComponentWrapperExpression: ts => {
+        return ts.createIdentifier('loadable');
+      },
+      createImportDeclaration: (ts, currentFile) => {
+        return ts.createImportDeclaration(
+          undefined,
+          undefined,
+          ts.createImportClause(ts.createIdentifier('loadable'), undefined),
+          ts.createStringLiteral('@loadable/component'),
+        );
+      },
+      onlyRewriteDefaultExports: true,
+    }),
+  );
+});
+
+test('bails out if it cannot remove the import', () => {
+  const code = {
+    'component1.tsx': `
+import * as React from "react";
+export default function (props: any) {
+    return <p>Hello!</p>;
+}
+export function MyComp2(props: any) {
+    return <p>Hello!</p>;
+}
+export const MyConst = "123";
+      `,
+    'component2.tsx': `
+import * as React from "react";
+import MyComp1, { MyComp2, MyConst } from "./component1";
+export default function (props: any) {
+    return <p><MyComp1 /><MyComp2 /></p>;
+}
+const y = MyConst;
+      `,
+  };
+
+  const expected = {
+    'component1.jsx': `
+import * as React from "react";
+export default function (props) {
+    return <p>Hello!</p>;
+}
+export function MyComp2(props) {
+    return <p>Hello!</p>;
+}
+export const MyConst = "123";
+      `,
+    'component2.jsx': `
+import * as React from "react";
+import MyComp1, { MyComp2, MyConst } from "./component1";
+export default function (props) {
+    return <p><MyComp1 /><MyComp2 /></p>;
+}
+const y = MyConst;
+      `,
+  };
+
+  expectEqual(
+    expected,
+    compile(code, {
+      onlyRewriteIfImportCanBeRemoved: true,
+    }),
+  );
+});
+
+function expectEqual(expected: Code, compiled: Code) {
+  Object.keys(expected).forEach(fileName => {
+    expect(fileName + ':\n' + (compiled[fileName] || '').trim()).toBe(
+      fileName + ':\n' + (expected[fileName] || '').trim(),
+    );
+  });
+}
+
+/**
+ * Returns the source line that each generated line starts at, decoding just enough of the source map for that
+ */
+function getMappedSourceLines(sourceMapText: string) {
+  const base64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+  let sourceLine = 0;
+  return (JSON.parse(sourceMapText).mappings as string).split(';').map(line => {
+    let firstSourceLine: number | undefined;
+    for (const segment of line.split(',').filter(s => s)) {
+      const values: number[] = [];
+      let value = 0;
+      let shift = 0;
+      for (const char of segment.split('')) {
+        const digit = base64.indexOf(char);
+        value += (digit & 31) << shift;
+        shift += 5;
+        if (!(digit & 32)) {
+          values.push(value & 1 ? -(value >> 1) : value >> 1);
+          value = 0;
+          shift = 0;
+        }
+      }
+      if (values.length >= 4) {
+        sourceLine += values[2];
+        firstSourceLine = firstSourceLine === undefined ? sourceLine : firstSourceLine;
+      }
+    }
+    return firstSourceLine;
   });
 }